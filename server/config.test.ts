@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from "vitest";
+import { ConfigError, DEFAULT_DIFY_BASE_URL, loadConfig } from "./config";
+
+describe("loadConfig", () => {
+  it("VITE_なしの変数名からAPIキーを読み込む", () => {
+    const config = loadConfig({
+      DIFY_UPLOAD_API_KEY: "app-upload",
+      DIFY_WORKFLOW_API_KEY: "app-workflow",
+    });
+    expect(config).toMatchObject({
+      difyBaseUrl: DEFAULT_DIFY_BASE_URL,
+      uploadApiKey: "app-upload",
+      workflowApiKey: "app-workflow",
+      allowClientKeys: false,
+    });
+  });
+
+  it("DIFY_ALLOW_CLIENT_KEYS を明示した場合だけブラウザのキーの転送を許可する", () => {
+    expect(loadConfig({ DIFY_ALLOW_CLIENT_KEYS: "1" }).allowClientKeys).toBe(true);
+    expect(loadConfig({ DIFY_ALLOW_CLIENT_KEYS: "true" }).allowClientKeys).toBe(true);
+    expect(loadConfig({ DIFY_ALLOW_CLIENT_KEYS: "0" }).allowClientKeys).toBe(false);
+    expect(loadConfig({ DIFY_ALLOW_CLIENT_KEYS: "" }).allowClientKeys).toBe(false);
+  });
+
+  it("VITE_付きの変数名でAPIキーが定義されている場合は起動しない", () => {
+    expect(() =>
+      loadConfig({
+        DIFY_UPLOAD_API_KEY: "app-upload",
+        VITE_DIFY_WORKFLOW_API_KEY: "app-workflow",
+      })
+    ).toThrow(ConfigError);
+    expect(() =>
+      loadConfig({ VITE_DIFY_WORKFLOW_API_KEY: "app-workflow" })
+    ).toThrow("VITE_DIFY_WORKFLOW_API_KEY を DIFY_WORKFLOW_API_KEY に名前を変更してください");
+  });
+
+  it("VITE_DIFY_BASE_URL は転送先に使わず警告する", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const config = loadConfig({ VITE_DIFY_BASE_URL: "https://dify.example.com/v1" });
+    expect(config.difyBaseUrl).toBe(DEFAULT_DIFY_BASE_URL);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("VITE_DIFY_BASE_URL"));
+    warn.mockRestore();
+  });
+});
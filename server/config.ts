@@ -0,0 +1,65 @@
+export const DEFAULT_DIFY_BASE_URL = "https://api.dify.ai/v1";
+export const DEFAULT_PORT = 8787;
+
+export interface ProxyConfig {
+  port: number;
+  difyBaseUrl: string;
+  uploadApiKey: string;
+  workflowApiKey: string;
+  // ブラウザのプロファイルで指定されたAPIキーを転送するか。既定では転送せずサーバー側のキーだけを使う
+  allowClientKeys: boolean;
+  // リクエストログの出力先。空の場合は標準出力のみに出力する
+  logFile: string;
+}
+
+// Vite はコードから参照された VITE_ 付きの変数をブラウザ向けのバンドルに埋め込むため、
+// APIキーがこの名前で定義されている場合は移行を促して起動しない
+const FORBIDDEN_KEY_ENV_NAMES: Record<string, string> = {
+  VITE_DIFY_UPLOAD_API_KEY: "DIFY_UPLOAD_API_KEY",
+  VITE_DIFY_WORKFLOW_API_KEY: "DIFY_WORKFLOW_API_KEY",
+};
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * 環境変数からプロキシの設定を読み込む。APIキーはサーバー側だけで保持する
+ * VITE_ 付きの変数名でAPIキーが定義されている場合は ConfigError を投げる
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ProxyConfig => {
+  const forbidden = Object.keys(FORBIDDEN_KEY_ENV_NAMES).filter(
+    (name) => env[name]?.trim()
+  );
+  if (forbidden.length > 0) {
+    throw new ConfigError(
+      `${forbidden.join(", ")} はブラウザに公開されるため使用できません。` +
+        forbidden.map((name) => `${name} を ${FORBIDDEN_KEY_ENV_NAMES[name]}`).join("、") +
+        " に名前を変更してください"
+    );
+  }
+
+  // ブラウザは常にプロキシを呼ぶため、この変数はどこからも読まれない
+  if (env.VITE_DIFY_BASE_URL?.trim()) {
+    console.warn(
+      "VITE_DIFY_BASE_URL は使われません。プロキシの転送先は DIFY_BASE_URL で指定してください"
+    );
+  }
+
+  const read = (name: string): string => env[name]?.trim() ?? "";
+
+  const port = Number(env.PORT);
+  return {
+    port: Number.isInteger(port) && port > 0 ? port : DEFAULT_PORT,
+    difyBaseUrl: (read("DIFY_BASE_URL") || DEFAULT_DIFY_BASE_URL).replace(/\/+$/, ""),
+    uploadApiKey: read("DIFY_UPLOAD_API_KEY"),
+    workflowApiKey: read("DIFY_WORKFLOW_API_KEY"),
+    allowClientKeys: ["1", "true"].includes(
+      env.DIFY_ALLOW_CLIENT_KEYS?.trim().toLowerCase() ?? ""
+    ),
+    logFile: env.PROXY_LOG_FILE ?? "logs/proxy-requests.log",
+  };
+};
@@ -0,0 +1,35 @@
+import { createServer } from "node:http";
+import { ConfigError, loadConfig, type ProxyConfig } from "./config";
+import { createProxyHandler, API_PREFIX } from "./proxy";
+import { createRequestLogger } from "./requestLog";
+
+// .env があれば読み込む。APIキーは VITE_ を付けずに定義し、ブラウザへ渡さない
+try {
+  process.loadEnvFile();
+} catch {
+  // .env がない場合は環境変数だけを使う
+}
+
+let config: ProxyConfig;
+try {
+  config = loadConfig();
+} catch (error) {
+  if (!(error instanceof ConfigError)) throw error;
+  console.error(error.message);
+  process.exit(1);
+}
+if (!config.uploadApiKey || !config.workflowApiKey) {
+  console.warn(
+    "DIFY_UPLOAD_API_KEY または DIFY_WORKFLOW_API_KEY が設定されていません"
+  );
+}
+
+const server = createServer(
+  createProxyHandler(config, createRequestLogger(config.logFile))
+);
+
+server.listen(config.port, () => {
+  console.log(
+    `Dify proxy listening on http://localhost:${config.port}${API_PREFIX} -> ${config.difyBaseUrl}`
+  );
+});
@@ -0,0 +1,225 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import type { ProxyConfig } from "./config";
+import { ANONYMOUS_USER, type RequestLogger } from "./requestLog";
+
+export const API_PREFIX = "/api";
+// ファイルアップロードではユーザーIDをマルチパートの本文から読まずにこのヘッダーで受け取る
+export const USER_HEADER = "x-dify-user";
+
+const MAX_JSON_BODY_BYTES = 10 * 1024 * 1024;
+
+type ApiKeyKind = "upload" | "workflow";
+
+interface ProxyRoute {
+  method: "GET" | "POST";
+  pattern: RegExp;
+  apiKey: ApiKeyKind;
+  // stream: 本文をそのまま転送する / json: 読み込んでユーザーIDを記録してから転送する
+  body: "stream" | "json" | "none";
+}
+
+// ブラウザから呼べるのは Dify API のうちこのアプリで使うものだけに限る
+const ROUTES: ProxyRoute[] = [
+  { method: "POST", pattern: /^\/files\/upload$/, apiKey: "upload", body: "stream" },
+  { method: "POST", pattern: /^\/workflows\/run$/, apiKey: "workflow", body: "json" },
+  {
+    method: "POST",
+    pattern: /^\/workflows\/tasks\/[^/]+\/stop$/,
+    apiKey: "workflow",
+    body: "json",
+  },
+  { method: "GET", pattern: /^\/workflows\/run\/[^/]+$/, apiKey: "workflow", body: "none" },
+];
+
+class ProxyError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = "ProxyError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Dify のエラーレスポンスと同じ形式で返す
+const sendError = (res: ServerResponse, error: ProxyError) => {
+  res.writeHead(error.status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({ code: error.code, message: error.message, status: error.status })
+  );
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_JSON_BODY_BYTES) {
+      throw new ProxyError(413, "payload_too_large", "リクエストが大きすぎます");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+const readUserFromJson = (text: string): string | undefined => {
+  try {
+    const body = JSON.parse(text) as { user?: unknown };
+    return typeof body.user === "string" && body.user ? body.user : undefined;
+  } catch {
+    throw new ProxyError(400, "invalid_param", "リクエストのJSONが不正です");
+  }
+};
+
+const readHeaderUser = (req: IncomingMessage): string | undefined => {
+  const value = req.headers[USER_HEADER];
+  const encoded = Array.isArray(value) ? value[0] : value;
+  if (!encoded) return undefined;
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    return encoded;
+  }
+};
+
+/**
+ * /api 以下へのリクエストにサーバー側のAPIキーを付けて Dify API へ転送する
+ * ストリーミング応答は受け取った順にそのままブラウザへ流す
+ */
+export const createProxyHandler = (config: ProxyConfig, log: RequestLogger) => {
+  const apiKeys: Record<ApiKeyKind, string> = {
+    upload: config.uploadApiKey,
+    workflow: config.workflowApiKey,
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const startedAt = Date.now();
+    const method = req.method ?? "GET";
+    const url = new URL(req.url ?? "/", "http://localhost");
+    let user = readHeaderUser(req) ?? ANONYMOUS_USER;
+    let streaming = false;
+    let keySource: "server" | "client" | undefined;
+
+    const writeLog = (status: number, error?: string) =>
+      log({
+        time: new Date(startedAt).toISOString(),
+        user,
+        method,
+        path: url.pathname,
+        status,
+        durationMs: Date.now() - startedAt,
+        ...(streaming && { streaming }),
+        ...(keySource && { keySource }),
+        ...(error && { error }),
+      });
+
+    const controller = new AbortController();
+    // ブラウザ側で中断された場合は Dify へのリクエストも打ち切る
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      if (method === "GET" && url.pathname === `${API_PREFIX}/health`) {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ status: "ok" }));
+        return;
+      }
+
+      const path = url.pathname.startsWith(`${API_PREFIX}/`)
+        ? url.pathname.slice(API_PREFIX.length)
+        : "";
+      const route = ROUTES.find(
+        (candidate) => candidate.method === method && candidate.pattern.test(path)
+      );
+      if (!route) {
+        throw new ProxyError(404, "not_found", "指定されたAPIは存在しません");
+      }
+      // ブラウザから送られたキーは、サーバーで明示的に許可した場合だけ転送する。
+      // 許可しないと、プロキシに届く誰もがDifyへの中継に使えてしまう
+      const clientAuthorization = req.headers.authorization;
+      if (clientAuthorization && !config.allowClientKeys) {
+        throw new ProxyError(
+          403,
+          "client_keys_not_allowed",
+          "このプロキシはブラウザから指定されたAPIキーを受け付けません。プロファイルのAPIキーを空にするか、サーバーで DIFY_ALLOW_CLIENT_KEYS=1 を設定してください"
+        );
+      }
+      const apiKey = apiKeys[route.apiKey];
+      if (!clientAuthorization && !apiKey) {
+        throw new ProxyError(
+          500,
+          "missing_api_key",
+          "サーバーにDifyのAPIキーが設定されていません"
+        );
+      }
+
+      keySource = clientAuthorization ? "client" : "server";
+      const headers = new Headers({
+        Authorization: clientAuthorization ?? `Bearer ${apiKey}`,
+      });
+      let body: string | AsyncIterable<Uint8Array> | undefined;
+      if (route.body === "json") {
+        body = await readJsonBody(req);
+        user = readUserFromJson(body) ?? user;
+        headers.set("Content-Type", "application/json");
+      } else if (route.body === "stream") {
+        body = req;
+        for (const name of ["content-type", "content-length"]) {
+          const value = req.headers[name];
+          if (typeof value === "string") headers.set(name, value);
+        }
+      }
+
+      const upstream = await fetch(`${config.difyBaseUrl}${path}${url.search}`, {
+        method,
+        headers,
+        body,
+        duplex: "half",
+        signal: controller.signal,
+      });
+      const contentType = upstream.headers.get("content-type") ?? "application/json";
+      streaming = contentType.includes("text/event-stream");
+      const retryAfter = upstream.headers.get("retry-after");
+      res.writeHead(upstream.status, {
+        "Content-Type": contentType,
+        ...(retryAfter && { "Retry-After": retryAfter }),
+        ...(streaming && { "Cache-Control": "no-cache", "X-Accel-Buffering": "no" }),
+      });
+      res.flushHeaders();
+      if (upstream.body) {
+        await pipeline(
+          Readable.fromWeb(upstream.body as WebReadableStream<Uint8Array>),
+          res
+        );
+      } else {
+        res.end();
+      }
+      writeLog(upstream.status);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // 499: クライアントが応答を待たずに切断した
+        writeLog(499, "client closed request");
+        return;
+      }
+      const proxyError =
+        error instanceof ProxyError
+          ? error
+          : new ProxyError(502, "bad_gateway", "Dify APIへの接続に失敗しました");
+      if (!(error instanceof ProxyError)) {
+        console.error("Proxy request failed:", error);
+      }
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        sendError(res, proxyError);
+      }
+      writeLog(proxyError.status, proxyError.message);
+    }
+  };
+};
@@ -0,0 +1,39 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export const ANONYMOUS_USER = "anonymous";
+
+export interface RequestLogEntry {
+  time: string;
+  user: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  // ストリーミング応答かどうか
+  streaming?: boolean;
+  // Dify へ送ったAPIキーの出所。server: サーバー側の設定 / client: ブラウザのプロファイル
+  keySource?: "server" | "client";
+  error?: string;
+}
+
+export type RequestLogger = (entry: RequestLogEntry) => void;
+
+/**
+ * ユーザーごとのリクエストを1行1件のJSONで標準出力とログファイルに記録する
+ */
+export const createRequestLogger = (logFile: string): RequestLogger => {
+  let ready: Promise<unknown> = logFile
+    ? mkdir(dirname(logFile), { recursive: true })
+    : Promise.resolve();
+
+  return (entry) => {
+    const line = JSON.stringify(entry);
+    console.log(line);
+    if (!logFile) return;
+    // 書き込み順を保つため直前の書き込みの完了を待つ
+    ready = ready
+      .then(() => appendFile(logFile, `${line}\n`))
+      .catch((error) => console.error("Failed to write request log:", error));
+  };
+};
@@ -1,6 +1,8 @@
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import { CssBaseline } from '@mui/material';
-import { DifyFileUploadDemo } from './components/DifyFileUploadDemo';
+import { ProjectDetailPage } from './components/ProjectDetailPage';
+import { ProjectListPage } from './components/ProjectListPage';
+import { useHashRoute } from './hooks/useHashRoute';
 
 const theme = createTheme({
   palette: {
@@ -38,10 +40,16 @@ const theme = createTheme({
 });
 
 function App() {
+  const route = useHashRoute();
+
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
-      <DifyFileUploadDemo />
+      {route.page === 'project' ? (
+        <ProjectDetailPage key={route.projectId} projectId={route.projectId} />
+      ) : (
+        <ProjectListPage />
+      )}
     </ThemeProvider>
   );
 }
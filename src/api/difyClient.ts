@@ -0,0 +1,340 @@
+import type {
+  DifyStopTaskResponse,
+  DifyStreamEvent,
+  DifyUploadResponse,
+  DifyWorkflowResponse,
+  DifyWorkflowRunDetail,
+  DifyWorkflowRunRequest,
+} from "../types/dify";
+import { readDifyStream } from "../utils/difyStream";
+
+// APIキーを保持するローカルのプロキシ (server/) のエンドポイント
+export const DEFAULT_DIFY_BASE_URL = "/api";
+
+// プロキシがリクエストをユーザーごとに記録するためのヘッダー
+export const DIFY_USER_HEADER = "X-Dify-User";
+
+export interface DifyClientConfig {
+  // Dify API を直接呼ぶ場合のみ指定する。プロキシ経由ではサーバー側のキーが使われる
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export class DifyApiError extends Error {
+  readonly status: number;
+  readonly body: string;
+  // Retry-After ヘッダーで指定された待機時間（ミリ秒）
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    status: number,
+    body: string,
+    retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "DifyApiError";
+    this.status = status;
+    this.body = body;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// 通信の切断など、サーバーから応答を得られなかった場合のエラー
+export class DifyNetworkError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "DifyNetworkError";
+  }
+}
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  400: "リクエストの内容が不正です",
+  401: "APIキーが無効です",
+  403: "このAPIキーには実行権限がありません",
+  404: "APIのエンドポイントが見つかりません",
+  413: "ファイルサイズが上限を超えています",
+  415: "サポートされていないファイル形式です",
+  429: "リクエストが多すぎます。しばらく待ってから再実行してください",
+};
+
+/**
+ * Retry-After ヘッダー（秒数またはHTTP日付）をミリ秒に変換する
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * fetch / XMLHttpRequest が中断された場合のエラーか
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface UploadOptions extends RequestOptions {
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface DifyClient {
+  uploadFile(
+    file: File,
+    user: string,
+    options?: UploadOptions
+  ): Promise<DifyUploadResponse>;
+  runWorkflow(
+    request: Omit<DifyWorkflowRunRequest, "response_mode">,
+    options?: RequestOptions
+  ): Promise<DifyWorkflowResponse>;
+  runWorkflowStreaming(
+    request: Omit<DifyWorkflowRunRequest, "response_mode">,
+    options?: RequestOptions
+  ): Promise<AsyncGenerator<DifyStreamEvent>>;
+  stopTask(taskId: string, user: string): Promise<DifyStopTaskResponse>;
+  getWorkflowRun(workflowRunId: string): Promise<DifyWorkflowRunDetail>;
+}
+
+/**
+ * ストリームの読み取り中の切断を通信エラーとして扱い、再試行の対象にする
+ */
+async function* wrapStreamErrors(
+  events: AsyncGenerator<DifyStreamEvent>
+): AsyncGenerator<DifyStreamEvent> {
+  try {
+    yield* events;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new DifyNetworkError(
+      "ストリームの読み取り中に接続が切断されました",
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Dify APIクライアントを生成する
+ * baseUrlを省略した場合はローカルのプロキシを使う。別の接続先はプロファイルで指定する
+ */
+export const createDifyClient = ({
+  apiKey,
+  baseUrl = DEFAULT_DIFY_BASE_URL,
+}: DifyClientConfig): DifyClient => {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const toApiError = (
+    failureMessage: string,
+    path: string,
+    status: number,
+    statusText: string,
+    errorText: string,
+    retryAfter: string | null
+  ): DifyApiError => {
+    console.error(`${failureMessage}:`, {
+      path,
+      status,
+      statusText,
+      body: errorText,
+    });
+    const description = STATUS_DESCRIPTIONS[status];
+    return new DifyApiError(
+      `${failureMessage}: ${status} ${statusText}${
+        description ? `（${description}）` : ""
+      }${errorText ? `\n詳細: ${errorText}` : ""}`,
+      status,
+      errorText,
+      parseRetryAfter(retryAfter)
+    );
+  };
+
+  const request = async (
+    path: string,
+    init: RequestInit,
+    failureMessage: string
+  ): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    if (apiKey) headers.set("Authorization", `Bearer ${apiKey}`);
+
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, { ...init, headers });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new DifyNetworkError(
+        `${failureMessage}: ネットワークエラーが発生しました`,
+        { cause: error }
+      );
+    }
+
+    if (!response.ok) {
+      throw toApiError(
+        failureMessage,
+        path,
+        response.status,
+        response.statusText,
+        await response.text(),
+        response.headers.get("Retry-After")
+      );
+    }
+
+    return response;
+  };
+
+  // fetch ではアップロードの進捗を取得できないため XMLHttpRequest で送信する
+  const sendWithProgress = (
+    path: string,
+    body: FormData,
+    headers: Record<string, string>,
+    failureMessage: string,
+    { signal, onProgress }: UploadOptions
+  ): Promise<string> =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException("リクエストを中止しました", "AbortError"));
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      xhr.open("POST", `${root}${path}`);
+      if (apiKey) xhr.setRequestHeader("Authorization", `Bearer ${apiKey}`);
+      Object.entries(headers).forEach(([name, value]) =>
+        xhr.setRequestHeader(name, value)
+      );
+
+      const abort = () => xhr.abort();
+      signal?.addEventListener("abort", abort, { once: true });
+      const cleanup = () => signal?.removeEventListener("abort", abort);
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress?.({ loaded: event.loaded, total: event.total });
+        }
+      };
+      xhr.onload = () => {
+        cleanup();
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(xhr.responseText);
+        } else {
+          reject(
+            toApiError(
+              failureMessage,
+              path,
+              xhr.status,
+              xhr.statusText,
+              xhr.responseText,
+              xhr.getResponseHeader("Retry-After")
+            )
+          );
+        }
+      };
+      xhr.onerror = () => {
+        cleanup();
+        reject(
+          new DifyNetworkError(`${failureMessage}: ネットワークエラーが発生しました`)
+        );
+      };
+      xhr.onabort = () => {
+        cleanup();
+        reject(new DOMException("リクエストを中止しました", "AbortError"));
+      };
+      xhr.send(body);
+    });
+
+  const parseJsonText = <T>(responseText: string): T => {
+    try {
+      return JSON.parse(responseText) as T;
+    } catch (parseError) {
+      console.error("Failed to parse response as JSON:", parseError);
+      throw new Error("レスポンスの解析に失敗しました");
+    }
+  };
+
+  const parseJson = async <T>(response: Response): Promise<T> =>
+    parseJsonText<T>(await response.text());
+
+  const postJson = (
+    path: string,
+    body: unknown,
+    failureMessage: string,
+    signal?: AbortSignal
+  ) =>
+    request(
+      path,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal,
+      },
+      failureMessage
+    );
+
+  return {
+    async uploadFile(file, user, options = {}) {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("user", encodeURIComponent(user));
+
+      const responseText = await sendWithProgress(
+        "/files/upload",
+        formData,
+        { [DIFY_USER_HEADER]: encodeURIComponent(user) },
+        "アップロードに失敗しました",
+        options
+      );
+      return parseJsonText<DifyUploadResponse>(responseText);
+    },
+
+    async runWorkflow(body, options = {}) {
+      const response = await postJson(
+        "/workflows/run",
+        { ...body, response_mode: "blocking" },
+        "ワークフロー実行に失敗しました",
+        options.signal
+      );
+      return parseJson<DifyWorkflowResponse>(response);
+    },
+
+    async runWorkflowStreaming(body, options = {}) {
+      const response = await postJson(
+        "/workflows/run",
+        { ...body, response_mode: "streaming" },
+        "ワークフロー実行に失敗しました",
+        options.signal
+      );
+      if (!response.body) {
+        throw new Error("ストリーミングレスポンスを読み取れませんでした");
+      }
+      return wrapStreamErrors(readDifyStream(response.body));
+    },
+
+    async stopTask(taskId, user) {
+      const response = await postJson(
+        `/workflows/tasks/${encodeURIComponent(taskId)}/stop`,
+        { user },
+        "ワークフローの停止に失敗しました"
+      );
+      return parseJson<DifyStopTaskResponse>(response);
+    },
+
+    async getWorkflowRun(workflowRunId) {
+      const response = await request(
+        `/workflows/run/${encodeURIComponent(workflowRunId)}`,
+        { method: "GET" },
+        "実行結果の取得に失敗しました"
+      );
+      return parseJson<DifyWorkflowRunDetail>(response);
+    },
+  };
+};
@@ -0,0 +1,14 @@
+import recordedResult from "../../result.json";
+import type { DifyWorkflowResponse } from "../types/dify";
+import type { WorkflowFixture } from "../types/fixture";
+
+export const BUILTIN_FIXTURES: WorkflowFixture[] = [
+  {
+    id: "builtin_result",
+    name: "サンプル: 保育所向け連絡アプリ",
+    source_name: "result.json",
+    response: recordedResult as DifyWorkflowResponse,
+    created_at: recordedResult.data.created_at,
+    builtin: true,
+  },
+];
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import type { WorkflowFixture } from "../types/fixture";
+import { BUILTIN_FIXTURES } from "./fixtures";
+import { createReplayClient } from "./replayClient";
+
+const fixtureWith = (data: unknown): WorkflowFixture => ({
+  ...BUILTIN_FIXTURES[0],
+  name: "編集した記録",
+  response: { data } as WorkflowFixture["response"],
+});
+
+const request = { inputs: {}, response_mode: "blocking", user: "user" } as const;
+
+describe("createReplayClient", () => {
+  it("記録の不正な判定項目は除いて再生する", async () => {
+    const client = createReplayClient({
+      fixture: fixtureWith({
+        status: "succeeded",
+        outputs: {
+          judgement: [
+            { original_item: "判定なし" },
+            {
+              original_item: "欠席連絡ができること",
+              assessment: { compliance_status: "○", reasoning: "標準機能" },
+            },
+          ],
+        },
+      }),
+      latencyMs: 0,
+    });
+    const response = await client.runWorkflow(request);
+    expect(response.data?.outputs).toEqual({
+      judgement: [
+        expect.objectContaining({ original_item: "欠席連絡ができること" }),
+      ],
+    });
+  });
+
+  it("判定結果を取り出せない記録はエラーにする", async () => {
+    const client = createReplayClient({
+      fixture: fixtureWith({ status: "succeeded" }),
+      latencyMs: 0,
+    });
+    const message = "記録「編集した記録」の応答が不正です: outputs: outputsがありません";
+    await expect(client.runWorkflow(request)).rejects.toThrow(message);
+    await expect(client.runWorkflowStreaming(request)).rejects.toThrow(message);
+    await expect(client.getWorkflowRun("run_1")).rejects.toThrow(message);
+  });
+});
@@ -0,0 +1,223 @@
+import type {
+  DifyStreamEvent,
+  DifyUploadResponse,
+  DifyWorkflowResponse,
+  DifyWorkflowResult,
+} from "../types/dify";
+import type { WorkflowFixture } from "../types/fixture";
+import { readDifyStream } from "../utils/difyStream";
+import { getExtension } from "../utils/fileType";
+import { validateWorkflowResponse } from "../utils/validateWorkflowResult";
+import type { DifyClient } from "./difyClient";
+
+export interface ReplayClientConfig {
+  fixture: WorkflowFixture;
+  // ワークフロー1回の実行にかける時間の目安（ミリ秒）
+  latencyMs: number;
+}
+
+// ストリーミングで再生する際に出力テキストを分割する数
+const TEXT_CHUNK_COUNT = 20;
+
+const abortError = () => new DOMException("リクエストを中止しました", "AbortError");
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const now = () => Math.floor(Date.now() / 1000);
+
+type ReplayResponse = DifyWorkflowResponse & { data: DifyWorkflowResult };
+
+/**
+ * 記録済みの応答を検証して、ワークフローの実行結果を取り出す
+ * 記録は利用者が保存・編集できるため、不正な内容は表示に渡さずエラーにする
+ */
+const getFixtureResult = (fixture: WorkflowFixture): DifyWorkflowResult => {
+  const validation = validateWorkflowResponse(fixture.response);
+  if (!validation.result) {
+    const details = validation.issues
+      .map((issue) => `${issue.path || "(root)"}: ${issue.message}`)
+      .join(" / ");
+    throw new Error(`記録「${fixture.name}」の応答が不正です: ${details}`);
+  }
+  return validation.result;
+};
+
+/**
+ * 記録済みの応答を、実行ごとに別のIDを振り直して返す
+ */
+const buildResponse = (fixture: WorkflowFixture): ReplayResponse => {
+  const result = getFixtureResult(fixture);
+  const runId = `replay_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const createdAt = now();
+  return {
+    ...fixture.response,
+    task_id: `task_${runId}`,
+    workflow_run_id: runId,
+    data: {
+      ...result,
+      id: runId,
+      created_at: createdAt,
+      finished_at: createdAt,
+    },
+  };
+};
+
+/**
+ * 記録済みの応答から、Difyのストリーミング応答と同じ順序のイベントを組み立てる
+ */
+const buildStreamEvents = (response: ReplayResponse): DifyStreamEvent[] => {
+  const base = {
+    task_id: response.task_id ?? "",
+    workflow_run_id: response.workflow_run_id ?? "",
+  };
+  const data = response.data;
+  const createdAt = data.created_at ?? now();
+  const node = (index: number, nodeType: string, title: string) => ({
+    id: `${base.workflow_run_id}_node_${index}`,
+    node_id: `node_${index}`,
+    node_type: nodeType,
+    title,
+    index,
+    created_at: createdAt,
+  });
+  const nodes = [
+    node(1, "start", "開始"),
+    node(2, "llm", "要件の判定"),
+    node(3, "end", "終了"),
+  ];
+
+  const text = JSON.stringify(data.outputs ?? {});
+  const chunkSize = Math.max(1, Math.ceil(text.length / TEXT_CHUNK_COUNT));
+  const chunks: DifyStreamEvent[] = [];
+  for (let offset = 0; offset < text.length; offset += chunkSize) {
+    chunks.push({
+      ...base,
+      event: "text_chunk",
+      data: { text: text.slice(offset, offset + chunkSize) },
+    });
+  }
+
+  const finished = (index: number, outputs?: Record<string, unknown>) => ({
+    ...base,
+    event: "node_finished" as const,
+    data: { ...nodes[index], status: "succeeded" as const, outputs },
+  });
+
+  return [
+    {
+      ...base,
+      event: "workflow_started",
+      data: { id: base.workflow_run_id, workflow_id: data.workflow_id, created_at: createdAt },
+    },
+    { ...base, event: "node_started", data: nodes[0] },
+    finished(0),
+    { ...base, event: "node_started", data: nodes[1] },
+    ...chunks,
+    finished(1, data.outputs),
+    { ...base, event: "node_started", data: nodes[2] },
+    finished(2, data.outputs),
+    { ...base, event: "workflow_finished", data: { ...data, finished_at: now() } },
+  ];
+};
+
+/**
+ * イベントをSSE形式のバイト列として少しずつ流すストリームを作る
+ */
+const createEventStream = (
+  events: DifyStreamEvent[],
+  latencyMs: number,
+  signal?: AbortSignal
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const interval = latencyMs / events.length;
+  let index = 0;
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        await delay(interval, signal);
+      } catch (error) {
+        controller.error(error);
+        return;
+      }
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(events[index])}\n\n`));
+      index++;
+      if (index >= events.length) controller.close();
+    },
+  });
+};
+
+/**
+ * 記録済みの応答を再生する Dify APIクライアント
+ * APIキーやネットワークがなくても、通常の実行と同じ処理で結果を表示できる
+ */
+export const createReplayClient = ({
+  fixture,
+  latencyMs,
+}: ReplayClientConfig): DifyClient => ({
+  async uploadFile(file, user, { signal, onProgress } = {}) {
+    // 実際の送信の代わりに進捗を段階的に通知する
+    const steps = 10;
+    for (let step = 1; step <= steps; step++) {
+      await delay(latencyMs / 5 / steps, signal);
+      onProgress?.({ loaded: Math.round((file.size * step) / steps), total: file.size });
+    }
+    const response: DifyUploadResponse = {
+      ...fixture.upload,
+      id: `replay_file_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: file.name,
+      size: file.size,
+      extension: getExtension(file.name),
+      mime_type: file.type || "application/octet-stream",
+      created_by: user,
+      created_at: now(),
+    };
+    return response;
+  },
+
+  async runWorkflow(_request, { signal } = {}) {
+    await delay(latencyMs, signal);
+    return buildResponse(fixture);
+  },
+
+  async runWorkflowStreaming(_request, { signal } = {}) {
+    await delay(Math.min(latencyMs, 300), signal);
+    const events = buildStreamEvents(buildResponse(fixture));
+    return readDifyStream(createEventStream(events, latencyMs, signal));
+  },
+
+  async stopTask() {
+    return { result: "success" };
+  },
+
+  async getWorkflowRun(workflowRunId) {
+    const data = getFixtureResult(fixture);
+    return {
+      id: workflowRunId,
+      workflow_id: data.workflow_id,
+      status: data.status,
+      inputs: {},
+      outputs: data.outputs,
+      error: data.error ?? null,
+      total_steps: data.total_steps,
+      total_tokens: data.total_tokens,
+      created_at: data.created_at,
+      finished_at: data.finished_at,
+      elapsed_time: data.elapsed_time,
+    };
+  },
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+import { DifyApiError, DifyNetworkError } from "./difyClient";
+import { isRetryableError, withRetry } from "./retry";
+
+const policy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 30000 };
+
+describe("isRetryableError", () => {
+  it("通信エラーとレート制限は再試行する", () => {
+    expect(isRetryableError(new DifyNetworkError("切断"))).toBe(true);
+    expect(isRetryableError(new DifyApiError("429", 429, ""))).toBe(true);
+  });
+
+  it("プログラムの誤りによるTypeErrorや認証エラーは再試行しない", () => {
+    expect(isRetryableError(new TypeError("x is not a function"))).toBe(false);
+    expect(isRetryableError(new DifyApiError("401", 401, ""))).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  it("一時的なエラーの後に成功すれば結果を返す", async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new DifyNetworkError("切断"))
+      .mockResolvedValueOnce("ok");
+    await expect(withRetry(operation, { policy })).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it("Retry-Afterが待機時間の上限を超える場合は待たずに失敗する", async () => {
+    const error = new DifyApiError("429", 429, "", 3600 * 1000);
+    const operation = vi.fn().mockRejectedValue(error);
+    const onRetry = vi.fn();
+    await expect(withRetry(operation, { policy, onRetry })).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
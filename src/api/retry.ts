@@ -0,0 +1,104 @@
+import { DifyApiError, DifyNetworkError, isAbortError } from "./difyClient";
+
+export interface RetryPolicy {
+  // 初回を含む最大試行回数
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+export interface RetryState {
+  // 次に行う試行の回数（2回目以降）
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  signal?: AbortSignal;
+  // 再試行の待機を始める前に呼ばれる
+  onRetry?: (state: RetryState) => void;
+}
+
+// レート制限と一時的なサーバーエラーだけを再試行する
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * 再試行で回復する見込みのあるエラーか。認証エラーや不正なファイルなどは即座に失敗させる
+ * 通信エラーはクライアントが DifyNetworkError に包んだものだけを対象とし、プログラムの誤りは再試行しない
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  if (error instanceof DifyApiError) return RETRYABLE_STATUSES.has(error.status);
+  return error instanceof DifyNetworkError;
+};
+
+/**
+ * 次の試行までの待機時間を求める。Retry-After があればそれに従い、
+ * なければ指数バックオフに揺らぎを加えて同時に再試行が集中しないようにする
+ * Retry-After が待機時間の上限を超える場合は再試行せずに失敗させるため、ここでは制限しない
+ */
+export const getRetryDelay = (
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): number => {
+  if (error instanceof DifyApiError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("リクエストを中止しました", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    else signal?.addEventListener("abort", abort, { once: true });
+  });
+
+/**
+ * 一時的なエラーで失敗した処理をバックオフを挟んで再試行する
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  { policy = DEFAULT_RETRY_POLICY, signal, onRetry }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) throw error;
+      if (signal?.aborted) throw error;
+
+      const delayMs = getRetryDelay(error, attempt, policy);
+      // 何十分も待たせるより、失敗として知らせて利用者が後で実行し直せるようにする
+      if (delayMs > policy.maxDelayMs) throw error;
+      onRetry?.({
+        attempt: attempt + 1,
+        maxAttempts: policy.maxAttempts,
+        delayMs,
+        error,
+      });
+      await sleep(delayMs, signal);
+    }
+  }
+};
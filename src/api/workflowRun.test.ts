@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import type { DifyWorkflowRunDetail } from "../types/dify";
+import type { DifyClient } from "./difyClient";
+import {
+  waitForWorkflowRun,
+  WorkflowRunStoppedError,
+  WorkflowRunTimeoutError,
+} from "./workflowRun";
+
+const run = (
+  status: DifyWorkflowRunDetail["status"],
+  error?: string
+): DifyWorkflowRunDetail => ({
+  id: "run_1",
+  workflow_id: "wf",
+  status,
+  inputs: {},
+  outputs: status === "succeeded" ? { judgement: [] } : null,
+  error,
+  total_steps: 3,
+  total_tokens: 100,
+  created_at: 1,
+  finished_at: status === "running" ? null : 2,
+  elapsed_time: 1,
+});
+
+const clientReturning = (...runs: DifyWorkflowRunDetail[]) => {
+  const getWorkflowRun = vi.fn();
+  runs.forEach((r) => getWorkflowRun.mockResolvedValueOnce(r));
+  return { client: { getWorkflowRun } as unknown as DifyClient, getWorkflowRun };
+};
+
+describe("waitForWorkflowRun", () => {
+  it("実行中の間は取得し直し、完了したらblockingモードと同じ形で返す", async () => {
+    const { client, getWorkflowRun } = clientReturning(
+      run("running"),
+      run("running"),
+      run("succeeded")
+    );
+    const response = await waitForWorkflowRun(client, "run_1", { intervalMs: 0 });
+    expect(getWorkflowRun).toHaveBeenCalledTimes(3);
+    expect(response.workflow_run_id).toBe("run_1");
+    expect(response.data?.outputs).toEqual({ judgement: [] });
+  });
+
+  it("失敗した実行はエラーにする", async () => {
+    const { client } = clientReturning(run("failed", "LLMエラー"));
+    await expect(
+      waitForWorkflowRun(client, "run_1", { intervalMs: 0 })
+    ).rejects.toThrow("LLMエラー");
+  });
+
+  it("Dify側で停止された実行は利用者の中止と区別してエラーにする", async () => {
+    const { client } = clientReturning(run("stopped"));
+    const waiting = waitForWorkflowRun(client, "run_1", { intervalMs: 0 });
+    await expect(waiting).rejects.toBeInstanceOf(WorkflowRunStoppedError);
+    await expect(waiting).rejects.not.toMatchObject({ name: "AbortError" });
+  });
+
+  it("待機時間の上限を過ぎても終わらない場合は取得をやめる", async () => {
+    const { client, getWorkflowRun } = clientReturning(
+      run("running"),
+      run("running"),
+      run("running")
+    );
+    await expect(
+      waitForWorkflowRun(client, "run_1", { intervalMs: 20, maxWaitMs: 30 })
+    ).rejects.toBeInstanceOf(WorkflowRunTimeoutError);
+    expect(getWorkflowRun).toHaveBeenCalledTimes(2);
+  });
+
+  it("中止されたら取得をやめる", async () => {
+    const { client, getWorkflowRun } = clientReturning(run("running"));
+    const controller = new AbortController();
+    const waiting = waitForWorkflowRun(client, "run_1", {
+      signal: controller.signal,
+      intervalMs: 60000,
+    });
+    await vi.waitFor(() => expect(getWorkflowRun).toHaveBeenCalledTimes(1));
+    controller.abort();
+    await expect(waiting).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
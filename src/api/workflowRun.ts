@@ -0,0 +1,71 @@
+import type { DifyWorkflowResponse } from "../types/dify";
+import type { DifyClient } from "./difyClient";
+import { sleep } from "./retry";
+
+export const WORKFLOW_RUN_POLL_INTERVAL_MS = 3000;
+// Dify側で実行が失われた場合に待ち続けないよう、結果の取得を諦めるまでの時間
+export const WORKFLOW_RUN_MAX_WAIT_MS = 10 * 60 * 1000;
+
+// Dify側で実行が停止された場合のエラー。利用者による中止（AbortError）とは区別する
+export class WorkflowRunStoppedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowRunStoppedError";
+  }
+}
+
+// 待機時間の上限を過ぎても実行が終わらなかった場合のエラー
+export class WorkflowRunTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowRunTimeoutError";
+  }
+}
+
+interface WaitForWorkflowRunOptions {
+  signal?: AbortSignal;
+  intervalMs?: number;
+  maxWaitMs?: number;
+}
+
+/**
+ * 開始済みのワークフロー実行が終わるまで実行結果を取得し直し、blockingモードと同じ形のレスポンスを返す
+ * ストリームが途中で切れた場合に、同じ実行をもう一度投入（二重に課金）せずに結果を受け取るために使う
+ * maxWaitMs を過ぎても終わらない場合は WorkflowRunTimeoutError を投げる
+ */
+export const waitForWorkflowRun = async (
+  client: DifyClient,
+  workflowRunId: string,
+  {
+    signal,
+    intervalMs = WORKFLOW_RUN_POLL_INTERVAL_MS,
+    maxWaitMs = WORKFLOW_RUN_MAX_WAIT_MS,
+  }: WaitForWorkflowRunOptions = {}
+): Promise<DifyWorkflowResponse> => {
+  const deadline = Date.now() + maxWaitMs;
+  while (true) {
+    if (signal?.aborted) {
+      throw new DOMException("リクエストを中止しました", "AbortError");
+    }
+    const run = await client.getWorkflowRun(workflowRunId);
+    switch (run.status) {
+      case "succeeded":
+        return { workflow_run_id: run.id, data: { ...run } };
+      case "stopped":
+        throw new WorkflowRunStoppedError(
+          "ワークフローの実行がDify側で停止されました"
+        );
+      case "failed":
+        throw new Error(
+          `ワークフロー実行に失敗しました: ${run.error ?? "不明なエラー"}`
+        );
+      default:
+        if (Date.now() + intervalMs > deadline) {
+          throw new WorkflowRunTimeoutError(
+            `ワークフローの実行が待機時間の上限を過ぎても終わらないため、結果の取得を中止しました（実行ID: ${workflowRunId}）`
+          );
+        }
+        await sleep(intervalMs, signal);
+    }
+  }
+};
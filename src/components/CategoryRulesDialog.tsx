@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Stack,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+import { Add as AddIcon, Delete as DeleteIcon } from "@mui/icons-material";
+import {
+  DEFAULT_CATEGORY_RULES,
+  type CategoryRule,
+} from "../utils/categoryClassifier";
+
+interface CategoryRulesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  rules: CategoryRule[];
+  onSave: (rules: CategoryRule[]) => void;
+}
+
+// キーワードは読点・カンマ・改行区切りの文字列として編集する
+interface RuleDraft {
+  category: string;
+  keywords: string;
+}
+
+const toDrafts = (rules: CategoryRule[]): RuleDraft[] =>
+  rules.map((rule) => ({
+    category: rule.category,
+    keywords: rule.keywords.join("、"),
+  }));
+
+const toRules = (drafts: RuleDraft[]): CategoryRule[] =>
+  drafts
+    .map((draft) => ({
+      category: draft.category.trim(),
+      keywords: draft.keywords
+        .split(/[、,，\n]/)
+        .map((keyword) => keyword.trim())
+        .filter(Boolean),
+    }))
+    .filter((rule) => rule.category && rule.keywords.length > 0);
+
+export const CategoryRulesDialog: React.FC<CategoryRulesDialogProps> = ({
+  open,
+  onClose,
+  rules,
+  onSave,
+}) => {
+  const [drafts, setDrafts] = useState<RuleDraft[]>([]);
+
+  const handleEnter = () => setDrafts(toDrafts(rules));
+
+  const update = (index: number, patch: Partial<RuleDraft>) =>
+    setDrafts((prev) =>
+      prev.map((draft, i) => (i === index ? { ...draft, ...patch } : draft))
+    );
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      slotProps={{ transition: { onEnter: handleEnter } }}
+    >
+      <DialogTitle>カテゴリ分類ルール</DialogTitle>
+      <DialogContent dividers>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          ワークフローがカテゴリを返さなかった項目を、要件の文言に含まれるキーワードで分類します。
+          一致したキーワードが最も多いルールが使われ、同数の場合は上のルールが優先されます。
+        </Alert>
+        <Stack spacing={2}>
+          {drafts.map((draft, index) => (
+            <Box key={index} sx={{ display: "flex", gap: 1, alignItems: "flex-start" }}>
+              <TextField
+                label="カテゴリ"
+                size="small"
+                value={draft.category}
+                onChange={(e) => update(index, { category: e.target.value })}
+                sx={{ width: 180, flexShrink: 0 }}
+              />
+              <TextField
+                label="キーワード（読点・カンマ区切り）"
+                size="small"
+                fullWidth
+                multiline
+                value={draft.keywords}
+                onChange={(e) => update(index, { keywords: e.target.value })}
+              />
+              <Tooltip title="ルールを削除">
+                <IconButton
+                  onClick={() =>
+                    setDrafts((prev) => prev.filter((_, i) => i !== index))
+                  }
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          ))}
+          <Box>
+            <Button
+              startIcon={<AddIcon />}
+              onClick={() =>
+                setDrafts((prev) => [...prev, { category: "", keywords: "" }])
+              }
+            >
+              ルールを追加
+            </Button>
+          </Box>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={() => setDrafts(toDrafts(DEFAULT_CATEGORY_RULES))}
+          sx={{ mr: "auto" }}
+        >
+          既定のルールに戻す
+        </Button>
+        <Button onClick={onClose}>キャンセル</Button>
+        <Button variant="contained" onClick={() => onSave(toRules(drafts))}>
+          保存
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
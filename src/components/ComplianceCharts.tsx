@@ -0,0 +1,145 @@
+import React, { useMemo } from "react";
+import { Box, Typography } from "@mui/material";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { JudgementItem } from "../types/dify";
+import {
+  COMPLIANCE_STATUSES,
+  COMPLIANCE_STATUS_COLORS,
+  countByCategory,
+  countByStatus,
+  type CategoryStatusCount,
+  type ComplianceStatus,
+} from "../utils/compliance";
+
+export interface ComplianceFilter {
+  status?: ComplianceStatus;
+  category?: string;
+}
+
+interface ComplianceChartsProps {
+  items: JudgementItem[];
+  filter: ComplianceFilter | null;
+  onFilterChange: (filter: ComplianceFilter | null) => void;
+}
+
+export const ComplianceCharts: React.FC<ComplianceChartsProps> = ({
+  items,
+  filter,
+  onFilterChange,
+}) => {
+  const statusData = useMemo(() => {
+    const counts = countByStatus(items);
+    return COMPLIANCE_STATUSES.map((status) => ({
+      status,
+      count: counts[status],
+    })).filter((entry) => entry.count > 0);
+  }, [items]);
+
+  const categoryData = useMemo(() => countByCategory(items), [items]);
+
+  // 同じセグメントを再度クリックした場合は絞り込みを解除する
+  const toggleFilter = (next: ComplianceFilter) => {
+    const isSame =
+      filter?.status === next.status && filter?.category === next.category;
+    onFilterChange(isSame ? null : next);
+  };
+
+  const isDimmed = (status: ComplianceStatus, category?: string) =>
+    !!filter &&
+    ((filter.status !== undefined && filter.status !== status) ||
+      (filter.category !== undefined &&
+        category !== undefined &&
+        filter.category !== category));
+
+  return (
+    <Box
+      sx={{
+        display: "flex",
+        gap: 2,
+        flexWrap: "wrap",
+        "& .recharts-surface": { cursor: "pointer" },
+      }}
+    >
+      <Box sx={{ flex: "1 1 240px", minWidth: 240 }}>
+        <Typography variant="subtitle1" gutterBottom>
+          適合状況の割合
+        </Typography>
+        <ResponsiveContainer width="100%" height={240}>
+          <PieChart>
+            <Pie
+              data={statusData}
+              dataKey="count"
+              nameKey="status"
+              innerRadius={55}
+              outerRadius={90}
+              paddingAngle={2}
+              label={({ name, percent }) =>
+                `${name} ${Math.round(Number(percent ?? 0) * 100)}%`
+              }
+              onClick={(entry: { status: ComplianceStatus }) =>
+                toggleFilter({ status: entry.status })
+              }
+            >
+              {statusData.map((entry) => (
+                <Cell
+                  key={entry.status}
+                  fill={COMPLIANCE_STATUS_COLORS[entry.status]}
+                  fillOpacity={isDimmed(entry.status) ? 0.3 : 1}
+                />
+              ))}
+            </Pie>
+            <Tooltip formatter={(value) => [`${value}件`, "件数"]} />
+          </PieChart>
+        </ResponsiveContainer>
+      </Box>
+
+      <Box sx={{ flex: "2 1 360px", minWidth: 320 }}>
+        <Typography variant="subtitle1" gutterBottom>
+          カテゴリ別の適合状況
+        </Typography>
+        <ResponsiveContainer width="100%" height={240}>
+          <BarChart data={categoryData} margin={{ left: -16 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="category" tick={{ fontSize: 12 }} />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Legend />
+            {COMPLIANCE_STATUSES.map((status) => (
+              <Bar
+                key={status}
+                dataKey={status}
+                stackId="status"
+                fill={COMPLIANCE_STATUS_COLORS[status]}
+                onClick={(data) =>
+                  toggleFilter({
+                    status,
+                    category: (data.payload as CategoryStatusCount).category,
+                  })
+                }
+              >
+                {categoryData.map((row) => (
+                  <Cell
+                    key={row.category}
+                    fillOpacity={isDimmed(status, row.category) ? 0.3 : 1}
+                  />
+                ))}
+              </Bar>
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </Box>
+    </Box>
+  );
+};
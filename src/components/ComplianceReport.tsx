@@ -0,0 +1,280 @@
+import React, { useMemo } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { DifyWorkflowResult } from "../types/dify";
+import {
+  COMPLIANCE_STATUSES,
+  COMPLIANCE_STATUS_COLORS,
+  complianceRate,
+  countByCategory,
+  countByStatus,
+  getCategory,
+} from "../utils/compliance";
+import { applyReview, isOverridden } from "../utils/review";
+import { formatDate } from "../utils/format";
+import {
+  REFERENCE_STATUS_LABELS,
+  type ReferenceVerification,
+} from "../utils/verifyReferences";
+import "./ComplianceReport.css";
+
+interface ComplianceReportProps {
+  result: DifyWorkflowResult;
+  fileName?: string;
+  // 参照元の照合結果。原文を照合していない場合は省略する
+  verifications?: (ReferenceVerification | null)[] | null;
+  // レポートの作成日時（秒）
+  generatedAt: number;
+}
+
+export const ComplianceReport: React.FC<ComplianceReportProps> = ({
+  result,
+  fileName,
+  verifications,
+  generatedAt,
+}) => {
+  const items = result.outputs.judgement;
+  // レポートには担当者レビューを反映した値を載せる
+  const reviewedItems = useMemo(() => items.map(applyReview), [items]);
+  const statusCounts = countByStatus(reviewedItems);
+  const statusData = COMPLIANCE_STATUSES.map((status) => ({
+    status,
+    count: statusCounts[status],
+  })).filter((entry) => entry.count > 0);
+  const categoryData = countByCategory(reviewedItems);
+  const confirmedCount = items.filter((item) => item.review?.confirmed).length;
+  const title = fileName ? `RFP判定レポート - ${fileName}` : "RFP判定レポート";
+
+  return (
+    <div className="compliance-report">
+      {/* 表紙 */}
+      <section className="report-cover">
+        <h1>RFP判定レポート</h1>
+        <div className="report-cover-file">{fileName ?? "（ファイル名なし）"}</div>
+        <div>適合率（○の割合）</div>
+        <div className="report-cover-rate">{complianceRate(reviewedItems)}%</div>
+        <div>
+          判定項目 {items.length}件（○ {statusCounts["○"]}件 / △ {statusCounts["△"]}
+          件 / × {statusCounts["×"]}件）
+        </div>
+        <div style={{ marginTop: 40 }}>作成日時: {formatDate(generatedAt)}</div>
+      </section>
+
+      {/* 印刷時は thead / tfoot が各ページのヘッダー・フッターとして繰り返される */}
+      <table className="report-layout">
+        <thead>
+          <tr>
+            <td>
+              <div className="report-header">
+                <span>{title}</span>
+                <span>実行ID: {result.id}</span>
+              </div>
+            </td>
+          </tr>
+        </thead>
+        <tfoot>
+          <tr>
+            <td>
+              <div className="report-footer">
+                <span>作成日時: {formatDate(generatedAt)}</span>
+                <span>社外秘</span>
+              </div>
+            </td>
+          </tr>
+        </tfoot>
+        <tbody>
+          <tr>
+            <td>
+              <section>
+                <h2>実行情報</h2>
+                <table className="report-meta">
+                  <tbody>
+                    <tr>
+                      <th>ファイル名</th>
+                      <td>{fileName ?? "-"}</td>
+                    </tr>
+                    <tr>
+                      <th>実行ID</th>
+                      <td>{result.id}</td>
+                    </tr>
+                    <tr>
+                      <th>ワークフローID</th>
+                      <td>{result.workflow_id}</td>
+                    </tr>
+                    <tr>
+                      <th>ステータス</th>
+                      <td>{result.status}</td>
+                    </tr>
+                    <tr>
+                      <th>実行時刻</th>
+                      <td>
+                        {formatDate(result.created_at)} - {formatDate(result.finished_at)}
+                      </td>
+                    </tr>
+                    <tr>
+                      <th>処理時間</th>
+                      <td>{result.elapsed_time.toFixed(2)}秒</td>
+                    </tr>
+                    <tr>
+                      <th>トークン数</th>
+                      <td>{result.total_tokens.toLocaleString()}</td>
+                    </tr>
+                    <tr>
+                      <th>ステップ数</th>
+                      <td>{result.total_steps}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </section>
+
+              <section>
+                <h2>適合性サマリー</h2>
+                <table className="report-meta" style={{ marginBottom: 12 }}>
+                  <tbody>
+                    {COMPLIANCE_STATUSES.map((status) => (
+                      <tr key={status}>
+                        <th>{status}</th>
+                        <td>
+                          {statusCounts[status]}件（
+                          {items.length === 0
+                            ? 0
+                            : Math.round((statusCounts[status] / items.length) * 100)}
+                          %）
+                        </td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <th>確認済み</th>
+                      <td>
+                        {confirmedCount} / {items.length}件
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+                {/* 印刷時はコンテナの幅を測れないため固定サイズで描画する */}
+                <div className="report-charts">
+                  <PieChart width={260} height={220}>
+                    <Pie
+                      data={statusData}
+                      dataKey="count"
+                      nameKey="status"
+                      innerRadius={45}
+                      outerRadius={80}
+                      paddingAngle={2}
+                      isAnimationActive={false}
+                      label={({ name, percent }) =>
+                        `${name} ${Math.round(Number(percent ?? 0) * 100)}%`
+                      }
+                    >
+                      {statusData.map((entry) => (
+                        <Cell
+                          key={entry.status}
+                          fill={COMPLIANCE_STATUS_COLORS[entry.status]}
+                        />
+                      ))}
+                    </Pie>
+                  </PieChart>
+                  <BarChart
+                    width={420}
+                    height={220}
+                    data={categoryData}
+                    margin={{ left: -16 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="category" tick={{ fontSize: 10 }} />
+                    <YAxis allowDecimals={false} tick={{ fontSize: 10 }} />
+                    <Legend />
+                    {COMPLIANCE_STATUSES.map((status) => (
+                      <Bar
+                        key={status}
+                        dataKey={status}
+                        stackId="status"
+                        fill={COMPLIANCE_STATUS_COLORS[status]}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </BarChart>
+                </div>
+              </section>
+
+              <section className="report-requirements">
+                <h2>要件別判定結果</h2>
+                <table className="report-table">
+                  <thead>
+                    <tr>
+                      <th style={{ width: "4%" }}>No.</th>
+                      <th style={{ width: "22%" }}>要件</th>
+                      <th style={{ width: "6%" }}>判定</th>
+                      <th style={{ width: "26%" }}>判定理由</th>
+                      <th style={{ width: "22%" }}>参照元</th>
+                      <th style={{ width: "20%" }}>代替案</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.map((item, index) => {
+                      const reviewed = reviewedItems[index];
+                      const verification = verifications?.[index];
+                      return (
+                        <tr key={index}>
+                          <td>
+                            {index + 1}
+                            {item.row_number !== undefined && (
+                              <span className="report-note">行 {item.row_number}</span>
+                            )}
+                          </td>
+                          <td>
+                            {item.original_item}
+                            <span className="report-note">{getCategory(reviewed)}</span>
+                          </td>
+                          <td className="report-status">
+                            <span
+                              style={{
+                                color:
+                                  COMPLIANCE_STATUS_COLORS[
+                                    reviewed.assessment.compliance_status
+                                  ],
+                              }}
+                            >
+                              {reviewed.assessment.compliance_status}
+                            </span>
+                            {isOverridden(item) && (
+                              <span className="report-note">
+                                AI: {item.assessment.compliance_status}
+                              </span>
+                            )}
+                            {item.review?.confirmed && (
+                              <span className="report-note">確認済み</span>
+                            )}
+                          </td>
+                          <td>{reviewed.assessment.reasoning}</td>
+                          <td>
+                            {item.assessment.reference_source ?? "-"}
+                            {verification && (
+                              <span className="report-note">
+                                {REFERENCE_STATUS_LABELS[verification.status]}
+                              </span>
+                            )}
+                          </td>
+                          <td>{reviewed.assessment.alternative_solution || "-"}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </section>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
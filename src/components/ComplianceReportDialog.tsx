@@ -0,0 +1,89 @@
+import React from "react";
+import { createPortal } from "react-dom";
+import {
+  AppBar,
+  Box,
+  Button,
+  Dialog,
+  IconButton,
+  Toolbar,
+  Typography,
+} from "@mui/material";
+import { Close as CloseIcon, Print as PrintIcon } from "@mui/icons-material";
+import type { DifyWorkflowResult } from "../types/dify";
+import type { ReferenceVerification } from "../utils/verifyReferences";
+import { ComplianceReport } from "./ComplianceReport";
+
+interface ComplianceReportDialogProps {
+  // レポートの作成日時（秒）。null の場合は閉じている
+  generatedAt: number | null;
+  onClose: () => void;
+  result: DifyWorkflowResult;
+  fileName?: string;
+  verifications?: (ReferenceVerification | null)[] | null;
+}
+
+export const ComplianceReportDialog: React.FC<ComplianceReportDialogProps> = ({
+  generatedAt,
+  onClose,
+  result,
+  fileName,
+  verifications,
+}) => {
+  if (generatedAt === null) return null;
+
+  const report = (
+    <ComplianceReport
+      result={result}
+      fileName={fileName}
+      verifications={verifications}
+      generatedAt={generatedAt}
+    />
+  );
+
+  return (
+    <>
+      <Dialog fullScreen open onClose={onClose}>
+        <AppBar position="sticky" color="default" elevation={1}>
+          <Toolbar sx={{ gap: 2 }}>
+            <IconButton edge="start" onClick={onClose} aria-label="閉じる">
+              <CloseIcon />
+            </IconButton>
+            <Typography variant="h6" sx={{ flex: 1 }}>
+              レポートのプレビュー
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              印刷ダイアログで「PDFに保存」を選ぶとPDFとして出力できます
+            </Typography>
+            <Button
+              variant="contained"
+              startIcon={<PrintIcon />}
+              onClick={() => window.print()}
+            >
+              印刷 / PDF出力
+            </Button>
+          </Toolbar>
+        </AppBar>
+        <Box sx={{ backgroundColor: "#e0e0e0", py: 3, minHeight: "100%" }}>
+          <Box
+            sx={{
+              width: "210mm",
+              maxWidth: "100%",
+              mx: "auto",
+              p: "12mm 10mm",
+              backgroundColor: "#ffffff",
+              boxShadow: 3,
+            }}
+          >
+            {report}
+          </Box>
+        </Box>
+      </Dialog>
+      {/* 印刷時は画面全体の代わりにこの要素だけを出力する */}
+      {createPortal(
+        <div className="compliance-report-print">{report}</div>,
+        document.body
+      )}
+    </>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from "react";
+import {
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Typography,
+} from "@mui/material";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { UploadResult, WorkflowResult } from "../types/history";
+import { buildWorkflowResultView } from "../utils/workflowResultView";
+import { applyReview } from "../utils/review";
+import {
+  COMPLIANCE_STATUS_COLORS,
+  complianceRate,
+  countByStatus,
+} from "../utils/compliance";
+import { formatDate } from "../utils/format";
+
+interface ComplianceTrendChartProps {
+  uploadResults: UploadResult[];
+  workflowResults: WorkflowResult[];
+}
+
+interface TrendPoint {
+  runId: string;
+  label: string;
+  rate: number;
+  partialRate: number;
+  total: number;
+}
+
+export const ComplianceTrendChart: React.FC<ComplianceTrendChartProps> = ({
+  uploadResults,
+  workflowResults,
+}) => {
+  // 同じファイル名でアップロードされたものは同じRFPの再実行とみなしてまとめる
+  const trends = useMemo(() => {
+    const groups = new Map<string, TrendPoint[]>();
+    [...workflowResults]
+      .filter((result) => result.status === "completed")
+      .sort((a, b) => a.created_at - b.created_at)
+      .forEach((result) => {
+        const upload = uploadResults.find((u) => u.id === result.file_id);
+        const validated = buildWorkflowResultView(result, upload).result;
+        if (!upload || !validated) return;
+        const items = validated.outputs.judgement.map(applyReview);
+        const points = groups.get(upload.name) ?? [];
+        points.push({
+          runId: result.id,
+          label: formatDate(result.created_at),
+          rate: complianceRate(items),
+          partialRate:
+            items.length === 0
+              ? 0
+              : Math.round((countByStatus(items)["△"] / items.length) * 1000) /
+                10,
+          total: items.length,
+        });
+        groups.set(upload.name, points);
+      });
+    return [...groups.entries()].filter(([, points]) => points.length >= 2);
+  }, [uploadResults, workflowResults]);
+
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const selected =
+    trends.find(([name]) => name === selectedName) ?? trends[0] ?? null;
+
+  if (!selected) {
+    return null;
+  }
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mt: 3, maxWidth: 1200, mx: "auto" }}>
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <Typography variant="h5">適合率の推移</Typography>
+        <FormControl size="small" sx={{ minWidth: 240 }}>
+          <InputLabel id="trend-rfp-label">RFP</InputLabel>
+          <Select
+            labelId="trend-rfp-label"
+            label="RFP"
+            value={selected[0]}
+            onChange={(e) => setSelectedName(e.target.value)}
+          >
+            {trends.map(([name, points]) => (
+              <MenuItem key={name} value={name}>
+                {name}（{points.length}回）
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+      <ResponsiveContainer width="100%" height={280}>
+        <LineChart data={selected[1]}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis domain={[0, 100]} unit="%" />
+          <Tooltip
+            formatter={(value, name) => [`${value}%`, name]}
+            labelFormatter={(label, payload) =>
+              `${label}（${payload?.[0]?.payload?.total ?? 0}項目）`
+            }
+          />
+          <Legend />
+          <Line
+            type="monotone"
+            dataKey="rate"
+            name="適合率(○)"
+            stroke={COMPLIANCE_STATUS_COLORS["○"]}
+            strokeWidth={2}
+          />
+          <Line
+            type="monotone"
+            dataKey="partialRate"
+            name="部分適合率(△)"
+            stroke={COMPLIANCE_STATUS_COLORS["△"]}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </Paper>
+  );
+};
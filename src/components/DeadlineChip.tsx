@@ -0,0 +1,30 @@
+import React from "react";
+import { Chip } from "@mui/material";
+import { Event as EventIcon } from "@mui/icons-material";
+import { getDaysUntilDeadline } from "../utils/project";
+
+interface DeadlineChipProps {
+  deadline: string;
+}
+
+// 1週間を切った案件は目立たせる
+const DEADLINE_WARNING_DAYS = 7;
+
+export const DeadlineChip: React.FC<DeadlineChipProps> = ({ deadline }) => {
+  const days = getDaysUntilDeadline(deadline);
+  if (days === null) {
+    return <Chip label="期限未定" size="small" variant="outlined" />;
+  }
+
+  const remaining =
+    days < 0 ? `${-days}日超過` : days === 0 ? "本日締切" : `あと${days}日`;
+  return (
+    <Chip
+      icon={<EventIcon />}
+      label={`${deadline}（${remaining}）`}
+      size="small"
+      color={days < 0 ? "default" : days <= DEADLINE_WARNING_DAYS ? "error" : "primary"}
+      variant={days < 0 ? "outlined" : "filled"}
+    />
+  );
+};
@@ -1,119 +1,233 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import {
   Box,
   Paper,
   Typography,
-  CircularProgress,
-  Chip,
+  LinearProgress,
+  Button,
+  IconButton,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Tooltip,
   alpha,
   useTheme
 } from '@mui/material';
 import {
   CloudUpload as CloudUploadIcon,
-  Image as ImageIcon,
-  PictureAsPdf as PdfIcon,
-  CheckCircle as CheckCircleIcon
+  CheckCircle as CheckCircleIcon,
+  Close as CloseIcon,
+  Error as ErrorIcon,
+  InsertDriveFile as InsertDriveFileIcon,
+  Replay as ReplayIcon
 } from '@mui/icons-material';
-
-interface DifyUploadResponse {
-  id: string;
-  name: string;
-  size: number;
-  extension: string;
-  mime_type: string;
-  created_by: string;
-  created_at: number;
-}
+import { createDifyClient, isAbortError, type DifyClient, type UploadProgress } from '../api/difyClient';
+import { withRetry, type RetryPolicy, type RetryState } from '../api/retry';
+import type { DifyUploadResponse } from '../types/dify';
+import { formatFileSize } from '../utils/format';
+import {
+  FILE_GROUP_LABELS,
+  FILE_SIZE_LIMITS,
+  SUPPORTED_EXTENSIONS,
+  getExtension,
+  getFileGroup,
+  validateUploadFile,
+  type FileGroup
+} from '../utils/fileType';
+import { FileGroupChip, FileGroupIcon } from './FileGroupIcon';
 
 interface DifyFileUploadProps {
-  apiKey: string;
+  apiKey?: string;
   userId: string;
+  baseUrl?: string;
+  retryPolicy?: RetryPolicy;
+  // 指定した場合は apiKey と baseUrl の代わりにこのクライアントでアップロードする
+  client?: DifyClient;
   onUploadSuccess?: (response: DifyUploadResponse, file: File) => void;
   onUploadError?: (error: string) => void;
 }
 
+type UploadItemStatus = 'queued' | 'uploading' | 'done' | 'error' | 'cancelled';
+
+interface UploadItem {
+  id: string;
+  file: File;
+  status: UploadItemStatus;
+  progress: UploadProgress;
+  retryState: RetryState | null;
+  error?: string;
+  // 形式やサイズの検証で弾いたファイルは再試行しても結果が変わらない
+  rejected?: boolean;
+}
+
+const STATUS_LABELS: Record<UploadItemStatus, string> = {
+  queued: '待機中',
+  uploading: 'アップロード中',
+  done: '完了',
+  error: '失敗',
+  cancelled: 'キャンセル'
+};
+
 export const DifyFileUpload: React.FC<DifyFileUploadProps> = ({
   apiKey,
   userId,
+  baseUrl,
+  retryPolicy,
+  client: clientOverride,
   onUploadSuccess,
   onUploadError
 }) => {
-  const [uploading, setUploading] = useState(false);
+  const [items, setItems] = useState<UploadItem[]>([]);
   const [dragOver, setDragOver] = useState(false);
   const [uploadSuccess, setUploadSuccess] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // 1件ずつ順番にアップロードするための待ち行列と、実行中のアップロードの AbortController
+  const queueRef = useRef<UploadItem[]>([]);
+  const processingRef = useRef(false);
+  const controllersRef = useRef(new Map<string, AbortController>());
   const theme = useTheme();
+  const client = useMemo(
+    () => clientOverride ?? createDifyClient({ apiKey, baseUrl }),
+    [clientOverride, apiKey, baseUrl]
+  );
 
-  const supportedFormats = ['png', 'jpg', 'jpeg', 'webp', 'gif', 'pdf'];
-
-
-  const validateFile = (file: File): string | null => {
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    if (!extension || !supportedFormats.includes(extension)) {
-      return `サポートされていないファイル形式です。対応形式: ${supportedFormats.join(', ')}`;
-    }
-    return null;
+  const updateItem = (id: string, patch: Partial<UploadItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
   };
 
-  const uploadFile = async (file: File) => {
-    const validationError = validateFile(file);
-    if (validationError) {
-      onUploadError?.(validationError);
-      return;
-    }
-
-    setUploading(true);
+  const uploadItem = async (item: UploadItem): Promise<boolean> => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    updateItem(item.id, { status: 'uploading', error: undefined, retryState: null });
 
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('user', encodeURIComponent(userId));
-
-      const response = await fetch('https://api.dify.ai/v1/files/upload', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`
+      const result = await withRetry(
+        () => {
+          updateItem(item.id, { progress: { loaded: 0, total: item.file.size } });
+          return client.uploadFile(item.file, userId, {
+            signal: controller.signal,
+            onProgress: (progress) => updateItem(item.id, { progress })
+          });
         },
-        body: formData
+        {
+          policy: retryPolicy,
+          signal: controller.signal,
+          onRetry: (retryState) => updateItem(item.id, { retryState })
+        }
+      );
+      updateItem(item.id, {
+        status: 'done',
+        retryState: null,
+        progress: { loaded: item.file.size, total: item.file.size }
       });
-
-      console.log('Upload response status:', response.status);
-      console.log('Upload response headers:', response.headers);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Upload failed with response:', errorText);
-        throw new Error(`アップロードに失敗しました: ${response.status} ${response.statusText}`);
+      onUploadSuccess?.(result, item.file);
+      return true;
+    } catch (error) {
+      // ユーザーによるキャンセルはエラーとして扱わない
+      if (isAbortError(error)) {
+        updateItem(item.id, { status: 'cancelled', retryState: null });
+        return false;
       }
+      const errorMessage = error instanceof Error ? error.message : 'アップロードエラーが発生しました';
+      updateItem(item.id, { status: 'error', error: errorMessage, retryState: null });
+      onUploadError?.(`${item.file.name}: ${errorMessage}`);
+      return false;
+    } finally {
+      controllersRef.current.delete(item.id);
+    }
+  };
 
-      const responseText = await response.text();
-      console.log('Upload response body:', responseText);
-      
-      let result: DifyUploadResponse;
-      try {
-        result = JSON.parse(responseText);
-        console.log('Parsed upload result:', result);
-        setUploadSuccess(true);
-        onUploadSuccess?.(result, file);
-        
-        // 3秒後に成功状態をリセット
-        setTimeout(() => setUploadSuccess(false), 3000);
-      } catch (parseError) {
-        console.error('Failed to parse response as JSON:', parseError);
-        throw new Error('レスポンスの解析に失敗しました');
+  const processQueue = async () => {
+    if (processingRef.current) return;
+    processingRef.current = true;
+    let allSucceeded = true;
+    try {
+      for (let item = queueRef.current.shift(); item; item = queueRef.current.shift()) {
+        allSucceeded = (await uploadItem(item)) && allSucceeded;
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'アップロードエラーが発生しました';
-      onUploadError?.(errorMessage);
     } finally {
-      setUploading(false);
+      processingRef.current = false;
+    }
+    if (allSucceeded) {
+      setUploadSuccess(true);
+      // 3秒後に成功状態をリセット
+      setTimeout(() => setUploadSuccess(false), 3000);
+    }
+  };
+
+  const enqueue = (queued: UploadItem[]) => {
+    queueRef.current.push(...queued);
+    processQueue();
+  };
+
+  const uploadFiles = async (files: File[]) => {
+    const validated = await Promise.all(
+      files.map(async (file, index): Promise<UploadItem> => {
+        const error = await validateUploadFile(file);
+        return {
+          id: `${Date.now()}_${index}_${file.name}`,
+          file,
+          status: error ? 'error' : 'queued',
+          progress: { loaded: 0, total: file.size },
+          retryState: null,
+          ...(error && { error, rejected: true })
+        };
+      })
+    );
+    setItems((prev) => [...prev, ...validated]);
+
+    const invalid = validated.filter((item) => item.status === 'error');
+    if (invalid.length > 0) {
+      onUploadError?.(invalid.map((item) => `${item.file.name}: ${item.error}`).join(' / '));
     }
+    enqueue(validated.filter((item) => item.status === 'queued'));
   };
 
+  const cancelItem = (item: UploadItem) => {
+    if (item.status === 'queued') {
+      queueRef.current = queueRef.current.filter((queued) => queued.id !== item.id);
+      updateItem(item.id, { status: 'cancelled' });
+    } else {
+      controllersRef.current.get(item.id)?.abort();
+    }
+  };
+
+  const retryItem = (item: UploadItem) => {
+    updateItem(item.id, { status: 'queued', error: undefined });
+    enqueue([item]);
+  };
+
+  const removeItem = (id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  const handleCancelAll = () => {
+    items.filter((item) => item.status === 'queued' || item.status === 'uploading').forEach(cancelItem);
+  };
+
+  const handleClearFinished = () => {
+    setItems((prev) => prev.filter((item) => item.status === 'queued' || item.status === 'uploading'));
+  };
+
+  const activeItems = items.filter((item) => item.status === 'queued' || item.status === 'uploading');
+  const uploading = activeItems.length > 0;
+  // キャンセルした分を除いた全体の進捗（バイト数）
+  const countedItems = items.filter((item) => item.status !== 'cancelled');
+  const totalBytes = countedItems.reduce((sum, item) => sum + item.progress.total, 0);
+  const loadedBytes = countedItems.reduce(
+    (sum, item) => sum + (item.status === 'error' ? item.progress.total : item.progress.loaded),
+    0
+  );
+  const overallPercent = totalBytes > 0 ? Math.round((loadedBytes / totalBytes) * 100) : 0;
+  const doneCount = items.filter((item) => item.status === 'done').length;
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      uploadFile(file);
+    const files = Array.from(event.target.files ?? []);
+    // 同じファイルを再度選択できるようにする
+    event.target.value = '';
+    if (files.length > 0) {
+      uploadFiles(files);
     }
   };
 
@@ -121,9 +235,9 @@ export const DifyFileUpload: React.FC<DifyFileUploadProps> = ({
     event.preventDefault();
     setDragOver(false);
     
-    const file = event.dataTransfer.files[0];
-    if (file) {
-      uploadFile(file);
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0) {
+      uploadFiles(files);
     }
   };
 
@@ -141,6 +255,75 @@ export const DifyFileUpload: React.FC<DifyFileUploadProps> = ({
     fileInputRef.current?.click();
   };
 
+  const renderItemIcon = (item: UploadItem) => {
+    if (item.status === 'done') return <CheckCircleIcon color="success" />;
+    if (item.status === 'error') return <ErrorIcon color="error" />;
+    const group = getFileGroup(getExtension(item.file.name), item.file.type);
+    return group ? <FileGroupIcon group={group} /> : <InsertDriveFileIcon color="action" />;
+  };
+
+  const renderItemStatus = (item: UploadItem) => {
+    if (item.status === 'uploading') {
+      const percent = item.progress.total > 0
+        ? Math.round((item.progress.loaded / item.progress.total) * 100)
+        : 0;
+      return (
+        <Box component="span" sx={{ display: 'block' }}>
+          <LinearProgress
+            variant="determinate"
+            value={percent}
+            sx={{ height: 6, borderRadius: 3, my: 0.5 }}
+          />
+          <Typography component="span" variant="caption" color="text.secondary">
+            {percent}% ({formatFileSize(item.progress.loaded)} / {formatFileSize(item.progress.total)})
+          </Typography>
+          {item.retryState && (
+            <Typography component="span" variant="caption" color="warning.main" sx={{ display: 'block' }}>
+              通信エラーのため再試行しています（{item.retryState.attempt}/{item.retryState.maxAttempts}回目、
+              {Math.ceil(item.retryState.delayMs / 1000)}秒後に開始）
+            </Typography>
+          )}
+        </Box>
+      );
+    }
+    if (item.status === 'error') {
+      return (
+        <Typography component="span" variant="caption" color="error.main">
+          {item.error}
+        </Typography>
+      );
+    }
+    return `${STATUS_LABELS[item.status]}・${formatFileSize(item.file.size)}`;
+  };
+
+  const renderItemAction = (item: UploadItem) => {
+    if (item.status === 'queued' || item.status === 'uploading') {
+      return (
+        <Tooltip title="キャンセル">
+          <IconButton edge="end" size="small" onClick={() => cancelItem(item)}>
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      );
+    }
+    return (
+      <Box sx={{ display: 'flex' }}>
+        {(item.status === 'cancelled' || (item.status === 'error' && !item.rejected)) && (
+          <Tooltip title="再試行">
+            <IconButton size="small" onClick={() => retryItem(item)}>
+              <ReplayIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+        <Tooltip title="一覧から削除">
+          <IconButton edge="end" size="small" onClick={() => removeItem(item.id)}>
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+    );
+  };
+
   return (
     <Box sx={{ width: '100%' }}>
       <Paper
@@ -151,22 +334,16 @@ export const DifyFileUpload: React.FC<DifyFileUploadProps> = ({
           borderStyle: 'dashed',
           borderColor: dragOver 
             ? theme.palette.primary.main 
-            : uploading 
-            ? theme.palette.grey[400] 
             : theme.palette.grey[300],
           backgroundColor: dragOver 
             ? alpha(theme.palette.primary.main, 0.05)
-            : uploading 
-            ? alpha(theme.palette.grey[500], 0.05)
             : alpha(theme.palette.grey[100], 0.3),
-          cursor: uploading ? 'not-allowed' : 'pointer',
+          cursor: 'pointer',
           textAlign: 'center',
           transition: 'all 0.3s ease',
           '&:hover': {
-            borderColor: uploading ? theme.palette.grey[400] : theme.palette.primary.light,
-            backgroundColor: uploading 
-              ? alpha(theme.palette.grey[500], 0.05)
-              : alpha(theme.palette.primary.main, 0.02)
+            borderColor: theme.palette.primary.light,
+            backgroundColor: alpha(theme.palette.primary.main, 0.02)
           }
         }}
         onDrop={handleDrop}
@@ -177,22 +354,15 @@ export const DifyFileUpload: React.FC<DifyFileUploadProps> = ({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".png,.jpg,.jpeg,.webp,.gif,.pdf"
+          multiple
+          accept={SUPPORTED_EXTENSIONS.map((extension) => `.${extension}`).join(',')}
           onChange={handleFileSelect}
           style={{ display: 'none' }}
-          disabled={uploading}
           aria-label="ファイルを選択してアップロード"
         />
         
         <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 2 }}>
-          {uploading ? (
-            <>
-              <CircularProgress size={48} />
-              <Typography variant="h6" color="text.secondary">
-                アップロード中...
-              </Typography>
-            </>
-          ) : uploadSuccess ? (
+          {uploadSuccess && !uploading ? (
             <>
               <CheckCircleIcon 
                 sx={{ 
@@ -215,29 +385,67 @@ export const DifyFileUpload: React.FC<DifyFileUploadProps> = ({
                 }} 
               />
               <Typography variant="h6" gutterBottom>
-                ファイルをドラッグ&ドロップまたはクリックして選択
+                ファイルをドラッグ&ドロップまたはクリックして選択（複数可）
               </Typography>
               <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', justifyContent: 'center' }}>
-                <Chip 
-                  label="画像" 
-                  variant="outlined" 
-                  size="small"
-                  icon={<ImageIcon />}
-                />
-                <Chip 
-                  label="PDF" 
-                  variant="outlined" 
-                  size="small"
-                  icon={<PdfIcon />}
-                />
+                {(Object.keys(FILE_GROUP_LABELS) as FileGroup[]).map((group) => (
+                  <FileGroupChip
+                    key={group}
+                    group={group}
+                    colored={false}
+                    variant="outlined"
+                    size="small"
+                  />
+                ))}
               </Box>
               <Typography variant="body2" color="text.secondary">
-                PNG, JPG, JPEG, WebP, GIF, PDF
+                {SUPPORTED_EXTENSIONS.map((extension) => extension.toUpperCase()).join(', ')}
+                （ドキュメント {formatFileSize(FILE_SIZE_LIMITS.document)}・画像 {formatFileSize(FILE_SIZE_LIMITS.image)} まで）
               </Typography>
             </>
           )}
         </Box>
       </Paper>
+
+      {items.length > 0 && (
+        <Box sx={{ mt: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Typography variant="body2" sx={{ whiteSpace: 'nowrap' }}>
+              {doneCount} / {items.length} 件完了
+            </Typography>
+            <LinearProgress
+              variant="determinate"
+              value={overallPercent}
+              color={uploading ? 'primary' : 'success'}
+              sx={{ flex: 1, height: 8, borderRadius: 4 }}
+            />
+            <Typography variant="body2" color="text.secondary">
+              {overallPercent}%
+            </Typography>
+            {uploading ? (
+              <Button size="small" color="inherit" startIcon={<CloseIcon />} onClick={handleCancelAll}>
+                すべてキャンセル
+              </Button>
+            ) : (
+              <Button size="small" color="inherit" onClick={handleClearFinished}>
+                一覧をクリア
+              </Button>
+            )}
+          </Box>
+          <List dense>
+            {items.map((item) => (
+              <ListItem key={item.id} secondaryAction={renderItemAction(item)}>
+                <ListItemIcon sx={{ minWidth: 36 }}>{renderItemIcon(item)}</ListItemIcon>
+                <ListItemText
+                  primary={item.file.name}
+                  secondary={renderItemStatus(item)}
+                  slotProps={{ primary: { noWrap: true }, secondary: { component: 'div' } }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      )}
     </Box>
   );
-};
\ No newline at end of file
+};
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   Container,
   Paper,
@@ -19,98 +19,570 @@ import {
   Accordion,
   AccordionSummary,
   AccordionDetails,
+  FormControlLabel,
+  Switch,
+  MenuItem,
+  TextField,
 } from "@mui/material";
 import {
-  Image as ImageIcon,
-  PictureAsPdf as PdfIcon,
   Folder as FolderIcon,
   CheckCircle as CheckCircleIcon,
   Warning as WarningIcon,
   FileCopy as FileCopyIcon,
   PlayArrow as PlayArrowIcon,
   ExpandMore as ExpandMoreIcon,
+  Delete as DeleteIcon,
+  DeleteSweep as DeleteSweepIcon,
+  TableChart as TableChartIcon,
+  Stop as StopIcon,
+  StopCircle as StopCircleIcon,
+  Settings as SettingsIcon,
+  PlaylistPlay as PlaylistPlayIcon,
+  DriveFileMove as DriveFileMoveIcon,
+  Save as SaveIcon,
+  Groups as GroupsIcon,
 } from "@mui/icons-material";
 import { DifyFileUpload } from "./DifyFileUpload";
 import { DifyResultDisplay } from "./DifyResultDisplay";
+import { WorkflowProgressDisplay } from "./WorkflowProgressDisplay";
+import { StorageUsageIndicator } from "./StorageUsageIndicator";
+import { RequirementSheetImport } from "./RequirementSheetImport";
+import { ComplianceTrendChart } from "./ComplianceTrendChart";
+import { RunComparison } from "./RunComparison";
+import { ProfileSettingsDialog } from "./ProfileSettingsDialog";
+import { TeamSettingsDialog } from "./TeamSettingsDialog";
+import { FileGroupChip, FileGroupIcon } from "./FileGroupIcon";
+import { RunQueuePanel } from "./RunQueuePanel";
+import { TransferFileDialog } from "./TransferFileDialog";
+import { ReplaySettingsBar } from "./ReplaySettingsBar";
+import { useRunQueue, type RunOutcome } from "../hooks/useRunQueue";
+import {
+  createDifyClient,
+  DifyNetworkError,
+  isAbortError,
+} from "../api/difyClient";
+import { withRetry, type RetryPolicy, type RetryState } from "../api/retry";
+import { waitForWorkflowRun } from "../api/workflowRun";
+import { BUILTIN_FIXTURES } from "../api/fixtures";
+import { createReplayClient } from "../api/replayClient";
+import {
+  loadReplaySettings,
+  saveReplaySettings,
+  type ReplaySettings,
+} from "../storage/replaySettings";
+import type { WorkflowFixture } from "../types/fixture";
+import {
+  loadRetryPolicy,
+  MAX_RETRY_ATTEMPTS,
+  saveRetryPolicy,
+} from "../storage/retrySettings";
+import {
+  DEFAULT_PROFILE_ID,
+  loadActiveProfileId,
+  loadProfiles,
+  saveActiveProfileId,
+  saveProfiles,
+} from "../storage/profiles";
+import type { WorkflowProfile } from "../types/profile";
+import { loadTeamSettings, saveTeamSettings } from "../storage/team";
+import type { TeamSettings } from "../types/team";
+import type {
+  DifyFileInput,
+  DifyStreamEvent,
+  DifyWorkflowResponse,
+  JudgementReview,
+  RequirementPriority,
+  ReviewThread,
+  WorkflowResponseMode,
+} from "../types/dify";
+import type {
+  RequirementRow,
+  UploadResult,
+  WorkflowResult,
+} from "../types/history";
+import { formatDate, formatFileSize } from "../utils/format";
+import { getDifyFileType, getFileGroup } from "../utils/fileType";
+import {
+  MAX_RUN_CONCURRENCY,
+  loadRunConcurrency,
+  saveRunConcurrency,
+} from "../storage/queueSettings";
+import {
+  applyStreamEvent,
+  createWorkflowProgress,
+  type WorkflowProgress,
+} from "../utils/difyStream";
+import { buildWorkflowResultView } from "../utils/workflowResultView";
+import {
+  validateWorkflowResponse,
+  type WorkflowResultValidation,
+} from "../utils/validateWorkflowResult";
+import { addRejudgement, findRejudgedItem } from "../utils/rejudge";
+import { useCategoryRules } from "../hooks/useCategoryRules";
+import type { CategoryRule } from "../utils/categoryClassifier";
+import {
+  clearHistory,
+  deleteUpload,
+  deleteWorkflowResult,
+  getStorageUsage,
+  loadHistory,
+  saveUpload,
+  saveWorkflowResult,
+  transferUpload,
+  deleteFixture,
+  loadFixtures,
+  saveFixture,
+  type StorageUsage,
+  type TransferMode,
+} from "../storage/historyDb";
+import type { Project } from "../types/project";
 
-interface UploadResult {
-  id: string;
-  name: string;
-  size: number;
-  extension: string;
-  mime_type: string;
-  created_by: string;
-  created_at: number;
-  file?: File;
-}
-
-interface DifyWorkflowResponse {
-  data?: {
-    outputs?: unknown;
-    [key: string]: unknown;
-  };
-  [key: string]: unknown;
-}
+// 要件一覧シートを実行する際のワークフロー入力変数名
+const REQUIREMENTS_INPUT_NAME = "requirements";
+// ストリーミング中に進捗表示を更新する最短の間隔
+const PROGRESS_UPDATE_INTERVAL_MS = 250;
+// 1項目だけを再判定する際に、担当者の補足情報を渡すワークフロー入力変数名
+const ADDITIONAL_CONTEXT_INPUT_NAME = "additional_context";
 
-interface WorkflowResult {
-  id: string;
-  file_id: string;
-  status: "running" | "completed" | "failed";
-  result?: DifyWorkflowResponse;
-  created_at: number;
-  error?: string;
+interface DifyFileUploadDemoProps {
+  // ファイルと実行結果はこのプロジェクトに保存する
+  project: Project;
+  // ファイルの移動・コピー先の候補
+  projects: Project[];
 }
 
-export const DifyFileUploadDemo: React.FC = () => {
-  const apiKey = import.meta.env.VITE_DIFY_UPLOAD_API_KEY || "";
-  const workflowApiKey = import.meta.env.VITE_DIFY_WORKFLOW_API_KEY || "";
-  const userId = import.meta.env.VITE_DIFY_USER_ID || "user-123";
+export const DifyFileUploadDemo: React.FC<DifyFileUploadDemoProps> = ({
+  project,
+  projects,
+}) => {
+  const [profiles, setProfiles] = useState<WorkflowProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState(loadActiveProfileId);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [categoryRules] = useCategoryRules();
+  const [team, setTeam] = useState<TeamSettings>(loadTeamSettings);
+  const [teamOpen, setTeamOpen] = useState(false);
+  const activeProfile =
+    profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0];
+  const userId = activeProfile.userId;
+  const [replaySettings, setReplaySettings] =
+    useState<ReplaySettings>(loadReplaySettings);
+  const [savedFixtures, setSavedFixtures] = useState<WorkflowFixture[]>([]);
+  const fixtures = useMemo(
+    () => [...BUILTIN_FIXTURES, ...savedFixtures],
+    [savedFixtures]
+  );
+  const replayFixture =
+    fixtures.find((fixture) => fixture.id === replaySettings.fixtureId) ??
+    BUILTIN_FIXTURES[0];
+  // オフラインデモではアップロードとワークフロー実行の両方で記録済みの応答を再生する
+  const replayClient = useMemo(
+    () =>
+      replaySettings.enabled
+        ? createReplayClient({
+            fixture: replayFixture,
+            latencyMs: replaySettings.latencyMs,
+          })
+        : undefined,
+    [replaySettings.enabled, replaySettings.latencyMs, replayFixture]
+  );
+  // プロファイルにキーがなければプロキシ側で付与する
+  const workflowClient = useMemo(
+    () =>
+      replayClient ??
+      createDifyClient({
+        apiKey: activeProfile.workflowApiKey || undefined,
+        baseUrl: activeProfile.baseUrl || undefined,
+      }),
+    [replayClient, activeProfile.workflowApiKey, activeProfile.baseUrl]
+  );
   const [uploadResults, setUploadResults] = useState<UploadResult[]>([]);
   const [workflowResults, setWorkflowResults] = useState<WorkflowResult[]>([]);
+  // 再判定の完了時に、待っている間のレビューなどの変更を上書きしないよう最新の実行結果を参照する
+  const workflowResultsRef = useRef(workflowResults);
+  useEffect(() => {
+    workflowResultsRef.current = workflowResults;
+  });
+  // 表示用の結果を実行結果ごとに保持する。レビューの編集や進捗の更新で再描画しても、
+  // 変更のない実行結果には同じ判定項目の配列を渡し、参照元の照合をやり直させない
+  const [resultViews] = useState(
+    () =>
+      new WeakMap<
+        WorkflowResult,
+        {
+          upload?: UploadResult;
+          categoryRules: CategoryRule[];
+          view: WorkflowResultValidation;
+        }
+      >()
+  );
+  const getResultView = (result: WorkflowResult, upload?: UploadResult) => {
+    const cached = resultViews.get(result);
+    if (
+      cached &&
+      cached.upload === upload &&
+      cached.categoryRules === categoryRules
+    ) {
+      return cached.view;
+    }
+    const view = buildWorkflowResultView(result, upload, categoryRules);
+    resultViews.set(result, { upload, categoryRules, view });
+    return view;
+  };
   const [error, setError] = useState<string | null>(null);
   const [executingWorkflows, setExecutingWorkflows] = useState<Set<string>>(
     new Set()
   );
+  const [responseMode, setResponseMode] =
+    useState<WorkflowResponseMode>("streaming");
+  const [workflowProgress, setWorkflowProgress] = useState<
+    Record<string, WorkflowProgress>
+  >({});
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(loadRetryPolicy);
+  const [workflowRetries, setWorkflowRetries] = useState<
+    Record<string, RetryState>
+  >({});
+  // 実行中のワークフローを停止するためのファイルIDごとの AbortController
+  const workflowControllers = useRef(new Map<string, AbortController>());
+  const [runConcurrency, setRunConcurrency] = useState(loadRunConcurrency);
+  // 別のプロジェクトへ移動・コピーするファイルのID
+  const [transferFileId, setTransferFileId] = useState<string | null>(null);
+
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch((error) => console.error("Failed to estimate storage:", error));
+  }, []);
+
+  const reportStorageError = (error: unknown) => {
+    console.error("History storage error:", error);
+    setError("履歴の保存領域へのアクセスに失敗しました");
+  };
+
+  // 起動時にプロジェクトの保存済みの履歴を復元する
+  useEffect(() => {
+    loadHistory(project.id)
+      .then((history) => {
+        setUploadResults((prev) => [
+          ...prev,
+          ...history.uploads.filter(
+            (upload) => !prev.some((result) => result.id === upload.id)
+          ),
+        ]);
+        setWorkflowResults((prev) => [
+          ...prev,
+          ...history.workflowResults.filter(
+            (stored) => !prev.some((result) => result.id === stored.id)
+          ),
+        ]);
+      })
+      .catch((error) => {
+        console.error("Failed to load history:", error);
+        setError("保存済みの履歴を読み込めませんでした");
+      })
+      .finally(refreshStorageUsage);
+  }, [project.id, refreshStorageUsage]);
+
+  useEffect(() => {
+    loadFixtures()
+      .then(setSavedFixtures)
+      .catch((error) => console.error("Failed to load fixtures:", error));
+  }, []);
+
+  const addWorkflowResult = (result: WorkflowResult) => {
+    const workflowResult = {
+      ...result,
+      project_id: project.id,
+      ...(replayClient && { replay_fixture_name: replayFixture.name }),
+    };
+    setWorkflowResults((prev) => [workflowResult, ...prev]);
+    saveWorkflowResult(workflowResult)
+      .then(refreshStorageUsage)
+      .catch(reportStorageError);
+  };
 
   const handleUploadSuccess = (result: UploadResult, file: File) => {
-    const uploadResult = { ...result, file };
+    const uploadResult = { ...result, file, project_id: project.id };
     setUploadResults((prev) => [uploadResult, ...prev]);
     setError(null);
+    saveUpload(uploadResult).then(refreshStorageUsage).catch(reportStorageError);
   };
 
-  const handleUploadError = (errorMessage: string) => {
-    setError(errorMessage);
+  const handleRequirementImport = (imported: UploadResult) => {
+    const upload = { ...imported, project_id: project.id };
+    setUploadResults((prev) => [upload, ...prev]);
+    setError(null);
+    saveUpload(upload).then(refreshStorageUsage).catch(reportStorageError);
+  };
+
+  const handleDeleteUpload = (fileId: string) => {
+    setUploadResults((prev) => prev.filter((result) => result.id !== fileId));
+    setWorkflowResults((prev) =>
+      prev.filter((result) => result.file_id !== fileId)
+    );
+    runQueue.remove([fileId]);
+    deleteUpload(fileId).then(refreshStorageUsage).catch(reportStorageError);
+  };
+
+  const handleTransferUpload = async (projectId: string, mode: TransferMode) => {
+    const fileId = transferFileId;
+    if (!fileId) return;
+    setTransferFileId(null);
+    try {
+      await transferUpload(fileId, projectId, mode);
+      if (mode === "move") {
+        setUploadResults((prev) => prev.filter((result) => result.id !== fileId));
+        setWorkflowResults((prev) =>
+          prev.filter((result) => result.file_id !== fileId)
+        );
+        runQueue.remove([fileId]);
+      }
+      refreshStorageUsage();
+    } catch (error) {
+      reportStorageError(error);
+    }
+  };
+
+  const handleDeleteWorkflowResult = (id: string) => {
+    setWorkflowResults((prev) => prev.filter((result) => result.id !== id));
+    deleteWorkflowResult(id)
+      .then(refreshStorageUsage)
+      .catch(reportStorageError);
+  };
+
+  const replaceWorkflowResult = (updated: WorkflowResult) => {
+    setWorkflowResults((prev) =>
+      prev.map((r) => (r.id === updated.id ? updated : r))
+    );
+    saveWorkflowResult(updated)
+      .then(refreshStorageUsage)
+      .catch(reportStorageError);
+  };
+
+  const handleReviewChange = (
+    workflowResultId: string,
+    index: number,
+    review: JudgementReview | null
+  ) => {
+    const target = workflowResults.find((r) => r.id === workflowResultId);
+    if (!target) return;
+
+    const reviews = { ...target.reviews };
+    if (review) {
+      reviews[index] = review;
+    } else {
+      delete reviews[index];
+    }
+    replaceWorkflowResult({ ...target, reviews });
+  };
+
+  const handlePriorityChange = (
+    workflowResultId: string,
+    index: number,
+    priority: RequirementPriority | null
+  ) => {
+    const target = workflowResults.find((r) => r.id === workflowResultId);
+    if (!target) return;
+
+    const priorities = { ...target.priorities };
+    if (priority) {
+      priorities[index] = priority;
+    } else {
+      delete priorities[index];
+    }
+    replaceWorkflowResult({ ...target, priorities });
   };
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return "0 Bytes";
-    const k = 1024;
-    const sizes = ["Bytes", "KB", "MB", "GB"];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+  const handleThreadChange = (
+    workflowResultId: string,
+    index: number,
+    thread: ReviewThread
+  ) => {
+    const target = workflowResults.find((r) => r.id === workflowResultId);
+    if (!target) return;
+    replaceWorkflowResult({
+      ...target,
+      threads: { ...target.threads, [index]: thread },
+    });
   };
 
-  const formatDate = (timestamp: number): string => {
-    return new Date(timestamp * 1000).toLocaleString("ja-JP");
+  /**
+   * 判定項目を1件だけ補足情報付きでワークフローに送り、結果で置き換える。これまでの判定は履歴に残す
+   */
+  const handleRejudge = async (
+    workflowResultId: string,
+    index: number,
+    context: string,
+    signal: AbortSignal
+  ) => {
+    const target = workflowResults.find((r) => r.id === workflowResultId);
+    const upload = uploadResults.find((u) => u.id === target?.file_id);
+    const item =
+      target &&
+      buildWorkflowResultView(target, upload).result?.outputs.judgement[index];
+    if (!item) throw new Error("再判定する項目が見つかりません");
+
+    // 判定したときのプロファイルで再判定する。選択中のプロファイルを使うと、
+    // 別のワークフローやAPIキーでの判定が元の実行結果に混ざってしまう
+    const profile = profiles.find(
+      (p) => p.id === (target.profile_id ?? DEFAULT_PROFILE_ID)
+    );
+    if (!profile) {
+      throw new Error(
+        `この結果を判定したプロファイル「${target.profile_name ?? target.profile_id}」が削除されているため再判定できません`
+      );
+    }
+    const client =
+      replayClient ??
+      createDifyClient({
+        apiKey: profile.workflowApiKey || undefined,
+        baseUrl: profile.baseUrl || undefined,
+      });
+
+    const requirements: RequirementRow[] = [
+      {
+        row_number: item.row_number ?? index + 1,
+        requirement: item.original_item,
+      },
+    ];
+    const request = {
+      inputs: {
+        [REQUIREMENTS_INPUT_NAME]: JSON.stringify(requirements),
+        [ADDITIONAL_CONTEXT_INPUT_NAME]: context,
+      },
+      user: profile.userId,
+    };
+    const response = await withRetry(
+      () => client.runWorkflow(request, { signal }),
+      { policy: retryPolicy, signal }
+    );
+
+    const validated = validateWorkflowResponse(response).result;
+    if (validated?.status === "failed") {
+      throw new Error(validated.error || "ワークフローの実行に失敗しました");
+    }
+    const rejudged = findRejudgedItem(
+      validated?.outputs.judgement ?? [],
+      item.original_item
+    );
+    if (!rejudged) {
+      throw new Error("ワークフローの結果に再判定した項目が含まれていません");
+    }
+
+    const latest = workflowResultsRef.current.find(
+      (r) => r.id === workflowResultId
+    );
+    if (!latest) return;
+    replaceWorkflowResult(
+      addRejudgement(latest, index, {
+        assessment: rejudged.assessment,
+        context: context || undefined,
+        workflow_run_id: response.workflow_run_id,
+        judged_at: Math.floor(Date.now() / 1000),
+      })
+    );
+  };
+
+  const handleClearHistory = () => {
+    if (!window.confirm("このプロジェクトのすべての履歴を削除しますか？")) return;
+    setUploadResults([]);
+    setWorkflowResults([]);
+    clearHistory(project.id).then(refreshStorageUsage).catch(reportStorageError);
+  };
+
+  const handleActiveProfileChange = (id: string) => {
+    setActiveProfileId(id);
+    saveActiveProfileId(id);
+  };
+
+  const handleTeamSave = (next: TeamSettings) => {
+    setTeam(next);
+    saveTeamSettings(next);
+    setTeamOpen(false);
   };
 
-  const getFileTypeIcon = (mimeType: string) => {
-    if (mimeType.startsWith("image/")) {
-      return <ImageIcon color="primary" />;
-    } else if (mimeType === "application/pdf") {
-      return <PdfIcon color="error" />;
+  const handleProfilesSave = (next: WorkflowProfile[], activeId: string) => {
+    setProfiles(next);
+    saveProfiles(next);
+    handleActiveProfileChange(activeId);
+    setSettingsOpen(false);
+  };
+
+  const handleReplaySettingsChange = (next: ReplaySettings) => {
+    setReplaySettings(next);
+    saveReplaySettings(next);
+  };
+
+  // 実際の実行結果を、オフラインデモで再生できる記録として保存する
+  const handleSaveFixture = (result: WorkflowResult) => {
+    if (!result.result) return;
+    const upload = uploadResults.find((candidate) => candidate.id === result.file_id);
+    const name = window.prompt(
+      "記録の名前を入力してください",
+      upload?.name ?? formatDate(result.created_at)
+    );
+    if (!name?.trim()) return;
+
+    const fixture: WorkflowFixture = {
+      id: `fixture_${Date.now()}`,
+      name: name.trim(),
+      source_name: upload?.name,
+      ...(upload && {
+        upload: {
+          id: upload.upload_file_id ?? upload.id,
+          name: upload.name,
+          size: upload.size,
+          extension: upload.extension,
+          mime_type: upload.mime_type,
+          created_by: upload.created_by,
+          created_at: upload.created_at,
+        },
+      }),
+      response: result.result,
+      created_at: Math.floor(Date.now() / 1000),
+    };
+    saveFixture(fixture)
+      .then(() => setSavedFixtures((prev) => [fixture, ...prev]))
+      .catch(reportStorageError);
+  };
+
+  const handleDeleteFixture = (id: string) => {
+    if (!window.confirm("この記録を削除しますか？")) return;
+    setSavedFixtures((prev) => prev.filter((fixture) => fixture.id !== id));
+    deleteFixture(id).catch(reportStorageError);
+  };
+
+  const handleRetryAttemptsChange = (maxAttempts: number) => {
+    const next = { ...retryPolicy, maxAttempts };
+    setRetryPolicy(next);
+    saveRetryPolicy(next);
+  };
+
+  const handleUploadError = (errorMessage: string) => {
+    setError(errorMessage);
+  };
+
+  const getFileTypeIcon = (upload: UploadResult) => {
+    if (upload.requirements) {
+      return <TableChartIcon color="success" />;
     }
-    return <FolderIcon color="action" />;
+    const group = getFileGroup(upload.extension, upload.mime_type);
+    return group ? <FileGroupIcon group={group} /> : <FolderIcon color="action" />;
   };
 
-  const getFileTypeChip = (mimeType: string) => {
-    if (mimeType.startsWith("image/")) {
+  const getFileTypeChip = (upload: UploadResult) => {
+    if (upload.requirements) {
       return (
-        <Chip label="画像" color="primary" size="small" icon={<ImageIcon />} />
+        <Chip
+          label={`要件一覧 ${upload.requirements.length}件`}
+          color="success"
+          size="small"
+          icon={<TableChartIcon />}
+        />
       );
-    } else if (mimeType === "application/pdf") {
-      return <Chip label="PDF" color="error" size="small" icon={<PdfIcon />} />;
     }
+    const group = getFileGroup(upload.extension, upload.mime_type);
+    if (group) return <FileGroupChip group={group} size="small" />;
     return (
       <Chip label="その他" color="default" size="small" icon={<FolderIcon />} />
     );
@@ -120,56 +592,123 @@ export const DifyFileUploadDemo: React.FC = () => {
     navigator.clipboard.writeText(text);
   };
 
-  const executeWorkflow = async (fileId: string) => {
-    if (!workflowApiKey.trim()) {
-      setError("ワークフロー用のAPI Keyが環境変数に設定されていません");
-      return;
+  // SSEを読み進めて進捗を更新し、最終的にblockingモードと同じ形のレスポンスを組み立てる
+  const consumeWorkflowStream = async (
+    fileId: string,
+    events: AsyncIterable<DifyStreamEvent>,
+    onStarted: (workflowRunId: string) => void
+  ): Promise<DifyWorkflowResponse> => {
+    let progress = createWorkflowProgress();
+    let publishedAt = 0;
+    const publish = () => {
+      const snapshot = progress;
+      setWorkflowProgress((prev) => ({ ...prev, [fileId]: snapshot }));
+      publishedAt = Date.now();
+    };
+    publish();
+
+    for await (const event of events) {
+      progress = applyStreamEvent(progress, event);
+      if (event.event === "workflow_started") onStarted(event.workflow_run_id);
+      // テキストチャンクはトークンごとに届くため、画面の更新を間引く
+      if (
+        event.event !== "text_chunk" ||
+        Date.now() - publishedAt >= PROGRESS_UPDATE_INTERVAL_MS
+      ) {
+        publish();
+      }
+    }
+    publish();
+
+    if (!progress.finished) {
+      throw new DifyNetworkError(
+        "ワークフローが完了する前にストリームが終了しました"
+      );
+    }
+    if (progress.finished.status === "stopped") {
+      throw new DOMException("ワークフローが停止されました", "AbortError");
+    }
+    if (progress.finished.status === "failed") {
+      throw new Error(
+        `ワークフロー実行に失敗しました: ${progress.finished.error ?? "不明なエラー"}`
+      );
     }
 
+    return {
+      task_id: progress.taskId,
+      workflow_run_id: progress.workflowRunId ?? progress.finished.id,
+      data: { ...progress.finished },
+    };
+  };
+
+  const executeWorkflow = async (fileId: string): Promise<RunOutcome> => {
     const uploadResult = uploadResults.find((result) => result.id === fileId);
     if (!uploadResult?.file) {
       setError("ファイルが見つかりません");
-      return;
+      return "failed";
     }
 
     setExecutingWorkflows((prev) => new Set(prev.add(fileId)));
     setError(null);
-
-    console.log("Executing workflow with file:", uploadResult.file.name);
+    const controller = new AbortController();
+    workflowControllers.current.set(fileId, controller);
+    let attempts = 0;
 
     try {
-      const response = await fetch("https://api.dify.ai/v1/workflows/run", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${workflowApiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          inputs: {
-            file: {
-              type: "document",
-              transfer_method: "local_file",
-              upload_file_id: fileId,
+      // 要件一覧シートは行番号付きの要件リストを、それ以外はアップロード済みファイルを入力にする
+      const request = {
+        inputs: uploadResult.requirements
+          ? {
+              [REQUIREMENTS_INPUT_NAME]: JSON.stringify(
+                uploadResult.requirements
+              ),
+            }
+          : {
+              [activeProfile.inputVariableName]: {
+                type: getDifyFileType(
+                  uploadResult.extension,
+                  uploadResult.mime_type
+                ),
+                transfer_method: "local_file",
+                upload_file_id: uploadResult.upload_file_id ?? fileId,
+              } satisfies DifyFileInput,
             },
-          },
-          user: userId,
-          response_mode: "blocking",
-        }),
-      });
+        user: userId,
+      };
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Workflow execution failed:", {
-          status: response.status,
-          statusText: response.statusText,
-          body: errorText,
-        });
-        throw new Error(
-          `ワークフロー実行に失敗しました: ${response.status} ${response.statusText}\n詳細: ${errorText}`
-        );
-      }
+      // Dify側で実行が始まった後にストリームが切れた場合は、再投入せずにその実行の結果を取りに行く
+      let startedRunId: string | undefined;
 
-      const result = await response.json();
+      // レート制限や通信の切断で失敗した場合は実行全体をやり直す
+      const result = await withRetry(
+        async (attempt) => {
+          attempts = attempt;
+          if (startedRunId) {
+            return waitForWorkflowRun(workflowClient, startedRunId, {
+              signal: controller.signal,
+            });
+          }
+          return responseMode === "streaming"
+            ? consumeWorkflowStream(
+                fileId,
+                await workflowClient.runWorkflowStreaming(request, {
+                  signal: controller.signal,
+                }),
+                (workflowRunId) => {
+                  startedRunId = workflowRunId;
+                }
+              )
+            : workflowClient.runWorkflow(request, {
+                signal: controller.signal,
+              });
+        },
+        {
+          policy: retryPolicy,
+          signal: controller.signal,
+          onRetry: (state) =>
+            setWorkflowRetries((prev) => ({ ...prev, [fileId]: state })),
+        }
+      );
 
       const workflowResult: WorkflowResult = {
         id: result.workflow_run_id || `workflow_${Date.now()}`,
@@ -177,10 +716,28 @@ export const DifyFileUploadDemo: React.FC = () => {
         status: "completed",
         result: result,
         created_at: Math.floor(Date.now() / 1000),
+        attempts,
+        profile_id: activeProfile.id,
+        profile_name: activeProfile.name,
       };
 
-      setWorkflowResults((prev) => [workflowResult, ...prev]);
+      addWorkflowResult(workflowResult);
+      return "completed";
     } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        addWorkflowResult({
+          id: `stopped_${Date.now()}`,
+          file_id: fileId,
+          status: "stopped",
+          error: "ワークフローの実行を停止しました",
+          created_at: Math.floor(Date.now() / 1000),
+          attempts,
+          profile_id: activeProfile.id,
+          profile_name: activeProfile.name,
+        });
+        return "stopped";
+      }
+
       const errorMessage =
         error instanceof Error
           ? error.message
@@ -193,22 +750,82 @@ export const DifyFileUploadDemo: React.FC = () => {
         status: "failed",
         error: errorMessage,
         created_at: Math.floor(Date.now() / 1000),
+        attempts,
+        profile_id: activeProfile.id,
+        profile_name: activeProfile.name,
       };
 
-      setWorkflowResults((prev) => [failedResult, ...prev]);
+      addWorkflowResult(failedResult);
+      return "failed";
     } finally {
+      workflowControllers.current.delete(fileId);
+      setWorkflowRetries((prev) => {
+        const next = { ...prev };
+        delete next[fileId];
+        return next;
+      });
       setExecutingWorkflows((prev) => {
         const newSet = new Set(prev);
         newSet.delete(fileId);
         return newSet;
       });
+      setWorkflowProgress((prev) => {
+        const next = { ...prev };
+        delete next[fileId];
+        return next;
+      });
+    }
+  };
+
+  const stopWorkflow = async (fileId: string) => {
+    const taskId = workflowProgress[fileId]?.taskId;
+    workflowControllers.current.get(fileId)?.abort();
+
+    // ストリーミング実行ではDify側の処理も停止する。blockingモードはタスクIDが分からないため中断のみ
+    if (!taskId) return;
+    try {
+      await workflowClient.stopTask(taskId, userId);
+    } catch (error) {
+      console.error("Failed to stop workflow task:", error);
+      setError("Dify側のワークフローの停止に失敗しました");
     }
   };
 
+  const runQueue = useRunQueue({
+    concurrency: runConcurrency,
+    run: executeWorkflow,
+    stop: stopWorkflow,
+  });
+  const queueActive = runQueue.items.some(
+    (item) => item.state === "queued" || item.state === "running"
+  );
+
   const getWorkflowResultForFile = (fileId: string) => {
     return workflowResults.find((result) => result.file_id === fileId);
   };
 
+  // 実行中と完了済みのものを除いて、すべてのファイルを一括実行の待ち行列に加える
+  const handleRunAll = () => {
+    runQueue.enqueue(
+      uploadResults
+        .filter(
+          (upload) =>
+            upload.file &&
+            !executingWorkflows.has(upload.id) &&
+            getWorkflowResultForFile(upload.id)?.status !== "completed"
+        )
+        .map((upload) => upload.id)
+    );
+  };
+
+  const handleRunConcurrencyChange = (concurrency: number) => {
+    setRunConcurrency(concurrency);
+    saveRunConcurrency(concurrency);
+  };
+
+  const getQueueState = (fileId: string) =>
+    runQueue.items.find((item) => item.id === fileId)?.state;
+
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
       {error && (
@@ -221,23 +838,200 @@ export const DifyFileUploadDemo: React.FC = () => {
         </Alert>
       )}
 
+      <Paper
+        elevation={3}
+        sx={{
+          p: 2,
+          mb: 3,
+          maxWidth: 800,
+          mx: "auto",
+          display: "flex",
+          alignItems: "center",
+          gap: 2,
+        }}
+      >
+        <TextField
+          select
+          size="small"
+          label="ワークフロープロファイル"
+          value={activeProfile.id}
+          onChange={(e) => handleActiveProfileChange(e.target.value)}
+          disabled={executingWorkflows.size > 0 || queueActive}
+          sx={{ flex: 1 }}
+        >
+          {profiles.map((profile) => (
+            <MenuItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Typography variant="body2" color="text.secondary">
+          ユーザーID: {activeProfile.userId}
+        </Typography>
+        <Button
+          variant="outlined"
+          startIcon={<SettingsIcon />}
+          onClick={() => setSettingsOpen(true)}
+          disabled={executingWorkflows.size > 0 || queueActive}
+        >
+          設定
+        </Button>
+        <Button
+          variant="outlined"
+          startIcon={<GroupsIcon />}
+          onClick={() => setTeamOpen(true)}
+        >
+          チーム
+        </Button>
+      </Paper>
+      <Paper elevation={3} sx={{ p: 2, mb: 3, maxWidth: 800, mx: "auto" }}>
+        <ReplaySettingsBar
+          settings={replaySettings}
+          fixtures={fixtures}
+          onChange={handleReplaySettingsChange}
+          onDeleteFixture={handleDeleteFixture}
+          disabled={executingWorkflows.size > 0 || queueActive}
+        />
+      </Paper>
+      <TeamSettingsDialog
+        open={teamOpen}
+        onClose={() => setTeamOpen(false)}
+        settings={team}
+        onSave={handleTeamSave}
+      />
+      <ProfileSettingsDialog
+        open={settingsOpen}
+        onClose={() => setSettingsOpen(false)}
+        profiles={profiles}
+        activeProfileId={activeProfile.id}
+        onSave={handleProfilesSave}
+      />
+      <TransferFileDialog
+        fileName={
+          transferFileId
+            ? (uploadResults.find((upload) => upload.id === transferFileId)
+                ?.name ?? transferFileId)
+            : null
+        }
+        projects={projects.filter((candidate) => candidate.id !== project.id)}
+        onClose={() => setTransferFileId(null)}
+        onTransfer={handleTransferUpload}
+      />
+
       <Paper elevation={3} sx={{ p: 3, mb: 3, maxWidth: 800, mx: "auto" }}>
         <Typography variant="h5" gutterBottom sx={{ mb: 2 }}>
           ファイルアップロード
         </Typography>
         <DifyFileUpload
-          apiKey={apiKey}
+          apiKey={activeProfile.uploadApiKey || undefined}
+          baseUrl={activeProfile.baseUrl || undefined}
           userId={userId}
+          retryPolicy={retryPolicy}
+          client={replayClient}
           onUploadSuccess={handleUploadSuccess}
           onUploadError={handleUploadError}
         />
       </Paper>
 
+      <Paper elevation={3} sx={{ p: 3, mb: 3, maxWidth: 800, mx: "auto" }}>
+        <Typography variant="h5" gutterBottom sx={{ mb: 2 }}>
+          要件一覧の取り込み
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Excel / CSV の要件一覧からシートと要件の列を選んで取り込みます。判定結果には元の行番号が保持されます。
+        </Typography>
+        <RequirementSheetImport
+          userId={userId}
+          onImport={handleRequirementImport}
+          onError={handleUploadError}
+        />
+      </Paper>
+
       {uploadResults.length > 0 && (
         <Paper elevation={3} sx={{ p: 3, mt: 3, maxWidth: 1200, mx: "auto" }}>
-          <Typography variant="h5" gutterBottom>
-            アップロード履歴
-          </Typography>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: 2,
+            }}
+          >
+            <Typography variant="h5" gutterBottom>
+              アップロード履歴
+            </Typography>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={responseMode === "streaming"}
+                  onChange={(e) =>
+                    setResponseMode(e.target.checked ? "streaming" : "blocking")
+                  }
+                  disabled={executingWorkflows.size > 0}
+                />
+              }
+              label="ストリーミングで実行"
+              sx={{ ml: "auto" }}
+            />
+            <TextField
+              select
+              size="small"
+              label="自動再試行"
+              value={retryPolicy.maxAttempts}
+              onChange={(e) => handleRetryAttemptsChange(Number(e.target.value))}
+              disabled={executingWorkflows.size > 0}
+              sx={{ minWidth: 120 }}
+            >
+              {Array.from({ length: MAX_RETRY_ATTEMPTS }, (_, index) => (
+                <MenuItem key={index} value={index + 1}>
+                  {index === 0 ? "しない" : `最大${index}回`}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: 2,
+              mb: 1,
+            }}
+          >
+            <StorageUsageIndicator usage={storageUsage} />
+            <Button
+              size="small"
+              color="error"
+              startIcon={<DeleteSweepIcon />}
+              onClick={handleClearHistory}
+              disabled={executingWorkflows.size > 0 || queueActive}
+            >
+              履歴をすべて削除
+            </Button>
+          </Box>
+          <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 1 }}>
+            <Button
+              variant="contained"
+              startIcon={<PlaylistPlayIcon />}
+              onClick={handleRunAll}
+            >
+              未完了のファイルをすべて実行
+            </Button>
+            <TextField
+              select
+              size="small"
+              label="同時実行数"
+              value={runConcurrency}
+              onChange={(e) => handleRunConcurrencyChange(Number(e.target.value))}
+              sx={{ minWidth: 120 }}
+            >
+              {Array.from({ length: MAX_RUN_CONCURRENCY }, (_, index) => (
+                <MenuItem key={index} value={index + 1}>
+                  {index + 1}件
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
           <TableContainer>
             <Table>
               <TableHead>
@@ -249,12 +1043,13 @@ export const DifyFileUploadDemo: React.FC = () => {
                   <TableCell>アップロード日時</TableCell>
                   <TableCell>File ID</TableCell>
                   <TableCell>アクション</TableCell>
+                  <TableCell />
                 </TableRow>
               </TableHead>
               <TableBody>
                 {uploadResults.map((result) => (
                   <TableRow key={result.id} hover>
-                    <TableCell>{getFileTypeIcon(result.mime_type)}</TableCell>
+                    <TableCell>{getFileTypeIcon(result)}</TableCell>
                     <TableCell>
                       <Typography variant="body2" fontWeight="medium">
                         {result.name}
@@ -267,7 +1062,7 @@ export const DifyFileUploadDemo: React.FC = () => {
                         variant="outlined"
                       />
                     </TableCell>
-                    <TableCell>{getFileTypeChip(result.mime_type)}</TableCell>
+                    <TableCell>{getFileTypeChip(result)}</TableCell>
                     <TableCell>
                       <Typography variant="body2" color="text.secondary">
                         {formatDate(result.created_at)}
@@ -286,12 +1081,14 @@ export const DifyFileUploadDemo: React.FC = () => {
                             textOverflow: "ellipsis",
                           }}
                         >
-                          {result.id}
+                          {result.upload_file_id ?? result.id}
                         </Typography>
                         <Tooltip title="IDをコピー">
                           <IconButton
                             size="small"
-                            onClick={() => copyToClipboard(result.id)}
+                            onClick={() =>
+                              copyToClipboard(result.upload_file_id ?? result.id)
+                            }
                           >
                             <FileCopyIcon fontSize="small" />
                           </IconButton>
@@ -304,17 +1101,60 @@ export const DifyFileUploadDemo: React.FC = () => {
                           result.id
                         );
                         const isExecuting = executingWorkflows.has(result.id);
+                        const retryState = workflowRetries[result.id];
+                        const queueState = getQueueState(result.id);
 
-                        if (isExecuting) {
+                        if (queueState === "queued" || queueState === "paused") {
                           return (
-                            <Button
-                              variant="outlined"
-                              disabled
-                              startIcon={<CircularProgress size={16} />}
+                            <Chip
+                              label={
+                                queueState === "queued"
+                                  ? "一括実行の待機中"
+                                  : "一括実行を一時停止中"
+                              }
+                              color={queueState === "queued" ? "default" : "warning"}
                               size="small"
-                            >
-                              実行中...
-                            </Button>
+                              variant="outlined"
+                            />
+                          );
+                        }
+
+                        if (isExecuting) {
+                          return (
+                            <Box sx={{ display: "flex", gap: 1 }}>
+                              <Button
+                                variant="outlined"
+                                disabled
+                                startIcon={<CircularProgress size={16} />}
+                                size="small"
+                              >
+                                実行中...
+                              </Button>
+                              {retryState && (
+                                <Tooltip
+                                  title={`${
+                                    retryState.error instanceof Error
+                                      ? retryState.error.message
+                                      : "通信エラー"
+                                  }（${Math.ceil(retryState.delayMs / 1000)}秒後に再試行）`}
+                                >
+                                  <Chip
+                                    label={`再試行 ${retryState.attempt}/${retryState.maxAttempts}`}
+                                    color="warning"
+                                    size="small"
+                                  />
+                                </Tooltip>
+                              )}
+                              <Button
+                                variant="outlined"
+                                color="error"
+                                size="small"
+                                startIcon={<StopIcon />}
+                                onClick={() => stopWorkflow(result.id)}
+                              >
+                                停止
+                              </Button>
+                            </Box>
                           );
                         }
 
@@ -328,7 +1168,10 @@ export const DifyFileUploadDemo: React.FC = () => {
                                 icon={<CheckCircleIcon />}
                               />
                             );
-                          } else if (workflowResult.status === "failed") {
+                          } else if (
+                            workflowResult.status === "failed" ||
+                            workflowResult.status === "stopped"
+                          ) {
                             return (
                               <Box
                                 sx={{
@@ -337,12 +1180,20 @@ export const DifyFileUploadDemo: React.FC = () => {
                                   gap: 1,
                                 }}
                               >
-                                <Chip
-                                  label="実行失敗"
-                                  color="error"
-                                  size="small"
-                                  icon={<WarningIcon />}
-                                />
+                                {workflowResult.status === "failed" ? (
+                                  <Chip
+                                    label="実行失敗"
+                                    color="error"
+                                    size="small"
+                                    icon={<WarningIcon />}
+                                  />
+                                ) : (
+                                  <Chip
+                                    label="停止"
+                                    size="small"
+                                    icon={<StopCircleIcon />}
+                                  />
+                                )}
                                 <Button
                                   variant="outlined"
                                   size="small"
@@ -369,6 +1220,33 @@ export const DifyFileUploadDemo: React.FC = () => {
                         );
                       })()}
                     </TableCell>
+                    <TableCell sx={{ whiteSpace: "nowrap" }}>
+                      <Tooltip title="別のプロジェクトへ移動・コピー">
+                        <span>
+                          <IconButton
+                            size="small"
+                            onClick={() => setTransferFileId(result.id)}
+                            disabled={
+                              executingWorkflows.has(result.id) ||
+                              getQueueState(result.id) === "running"
+                            }
+                          >
+                            <DriveFileMoveIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title="履歴から削除">
+                        <span>
+                          <IconButton
+                            size="small"
+                            onClick={() => handleDeleteUpload(result.id)}
+                            disabled={executingWorkflows.has(result.id)}
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -377,6 +1255,48 @@ export const DifyFileUploadDemo: React.FC = () => {
         </Paper>
       )}
 
+      {runQueue.items.length > 0 && (
+        <RunQueuePanel
+          items={runQueue.items}
+          concurrency={runConcurrency}
+          getFileName={(id) =>
+            uploadResults.find((upload) => upload.id === id)?.name ?? id
+          }
+          onPause={runQueue.pause}
+          onResume={runQueue.resume}
+          onRetry={runQueue.retry}
+          onRemove={runQueue.remove}
+          onClearFinished={runQueue.clearFinished}
+        />
+      )}
+
+      {Object.keys(workflowProgress).length > 0 && (
+        <Paper elevation={3} sx={{ p: 3, mt: 3, maxWidth: 1200, mx: "auto" }}>
+          <Typography variant="h5" gutterBottom>
+            実行中のワークフロー
+          </Typography>
+          {Object.entries(workflowProgress).map(([fileId, progress]) => (
+            <WorkflowProgressDisplay
+              key={fileId}
+              progress={progress}
+              fileName={
+                uploadResults.find((upload) => upload.id === fileId)?.name
+              }
+            />
+          ))}
+        </Paper>
+      )}
+
+      <ComplianceTrendChart
+        uploadResults={uploadResults}
+        workflowResults={workflowResults}
+      />
+
+      <RunComparison
+        uploadResults={uploadResults}
+        workflowResults={workflowResults}
+      />
+
       {workflowResults.length > 0 && (
         <Paper elevation={3} sx={{ p: 3, mt: 3, maxWidth: 1200, mx: "auto" }}>
           <Typography variant="h5" gutterBottom>
@@ -387,7 +1307,12 @@ export const DifyFileUploadDemo: React.FC = () => {
               (upload) => upload.id === result.file_id
             );
             return (
-              <Accordion key={result.id} sx={{ mb: 2 }}>
+              <Accordion
+                key={result.id}
+                sx={{ mb: 2 }}
+                // 閉じている間は原文の読み込みと参照元の照合を行わない
+                slotProps={{ transition: { unmountOnExit: true } }}
+              >
                 <AccordionSummary expandIcon={<ExpandMoreIcon />}>
                   <Box
                     sx={{
@@ -416,6 +1341,31 @@ export const DifyFileUploadDemo: React.FC = () => {
                         icon={<WarningIcon />}
                       />
                     )}
+                    {result.status === "stopped" && (
+                      <Chip label="停止" size="small" icon={<StopCircleIcon />} />
+                    )}
+                    {result.profile_name && (
+                      <Chip
+                        label={result.profile_name}
+                        size="small"
+                        variant="outlined"
+                        color="primary"
+                      />
+                    )}
+                    {result.replay_fixture_name && (
+                      <Tooltip title={`記録「${result.replay_fixture_name}」を再生した結果`}>
+                        <Chip label="デモ再生" size="small" color="secondary" />
+                      </Tooltip>
+                    )}
+                    {(result.attempts ?? 1) > 1 && (
+                      <Chip
+                        label={`${result.attempts}回目で${
+                          result.status === "completed" ? "成功" : "終了"
+                        }`}
+                        size="small"
+                        variant="outlined"
+                      />
+                    )}
                     <Typography
                       variant="body2"
                       color="text.secondary"
@@ -431,24 +1381,60 @@ export const DifyFileUploadDemo: React.FC = () => {
                       <Box>
                         {/* DifyResultDisplayコンポーネントを使用 */}
                         {(() => {
-                          // Difyレスポンスの構造を確認: dataオブジェクト内にワークフロー結果がある場合
-                          const workflowData = result.result && 
-                            typeof result.result === "object" &&
-                            "data" in result.result 
-                              ? result.result.data
-                              : result.result;
-                          
-                          if (workflowData && 
-                              typeof workflowData === "object" && 
-                              "outputs" in workflowData) {
+                          // Difyレスポンスの構造を確認: dataオブジェクト内にワークフロー結果がある場合はそちらを検証する
+                          const validation = getResultView(result, uploadFile);
+                          if (validation.result) {
                             return (
-                              <DifyResultDisplay
-                                result={workflowData as unknown as React.ComponentProps<typeof DifyResultDisplay>['result']}
-                                fileName={uploadFile?.name}
-                              />
+                              <>
+                                {validation.issues.length > 0 && (
+                                  <Alert severity="warning" sx={{ mb: 2 }}>
+                                    <Typography variant="subtitle2">
+                                      レスポンスの検証で{validation.issues.length}
+                                      件の問題が見つかりました
+                                      {validation.invalidItemCount > 0 &&
+                                        `（${validation.invalidItemCount}件の判定項目を表示から除外）`}
+                                    </Typography>
+                                    <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                                      {validation.issues.map((issue, index) => (
+                                        <li key={index}>
+                                          <Box
+                                            component="span"
+                                            sx={{ fontFamily: "monospace", mr: 1 }}
+                                          >
+                                            {issue.path || "(root)"}
+                                          </Box>
+                                          {issue.message}
+                                        </li>
+                                      ))}
+                                    </Box>
+                                  </Alert>
+                                )}
+                                <DifyResultDisplay
+                                  result={validation.result}
+                                  fileName={uploadFile?.name}
+                                  sourceFile={
+                                    uploadFile?.requirements
+                                      ? undefined
+                                      : uploadFile?.file
+                                  }
+                                  onReviewChange={(index, review) =>
+                                    handleReviewChange(result.id, index, review)
+                                  }
+                                  onPriorityChange={(index, priority) =>
+                                    handlePriorityChange(result.id, index, priority)
+                                  }
+                                  team={team}
+                                  onThreadChange={(index, thread) =>
+                                    handleThreadChange(result.id, index, thread)
+                                  }
+                                  onRejudge={(index, context, signal) =>
+                                    handleRejudge(result.id, index, context, signal)
+                                  }
+                                />
+                              </>
                             );
                           }
-                          
+
                           return (
                             <Box>
                               <Typography variant="subtitle2" gutterBottom>
@@ -484,6 +1470,11 @@ export const DifyFileUploadDemo: React.FC = () => {
                       <Alert severity="error">{result.error}</Alert>
                     </Box>
                   )}
+                  {result.status === "stopped" && (
+                    <Alert severity="info">
+                      {result.error ?? "ワークフローの実行を停止しました"}
+                    </Alert>
+                  )}
                   <Box sx={{ mt: 2, display: "flex", gap: 1 }}>
                     <Typography variant="body2" color="text.secondary">
                       実行ID: {result.id}
@@ -494,6 +1485,27 @@ export const DifyFileUploadDemo: React.FC = () => {
                     >
                       <FileCopyIcon fontSize="small" />
                     </IconButton>
+                    <Box sx={{ ml: "auto", display: "flex", gap: 1 }}>
+                      {result.status === "completed" &&
+                        result.result !== undefined &&
+                        !result.replay_fixture_name && (
+                          <Button
+                            size="small"
+                            startIcon={<SaveIcon />}
+                            onClick={() => handleSaveFixture(result)}
+                          >
+                            オフラインデモ用に記録
+                          </Button>
+                        )}
+                      <Tooltip title="この実行結果を削除">
+                        <IconButton
+                          size="small"
+                          onClick={() => handleDeleteWorkflowResult(result.id)}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </Box>
                   </Box>
                 </AccordionDetails>
               </Accordion>
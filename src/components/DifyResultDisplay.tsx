@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useMemo, useState } from "react";
 import {
   Box,
   Paper,
@@ -15,6 +15,10 @@ import {
   Stack,
   Tooltip,
   IconButton,
+  Button,
+  Collapse,
+  ToggleButton,
+  ToggleButtonGroup,
 } from "@mui/material";
 import {
   ExpandMore as ExpandMoreIcon,
@@ -26,48 +30,142 @@ import {
   Assessment as AssessmentIcon,
   Info as InfoIcon,
   FileCopy as FileCopyIcon,
+  Download as DownloadIcon,
+  Verified as VerifiedIcon,
+  Description as DescriptionIcon,
+  FindInPage as FindInPageIcon,
+  TaskAlt as TaskAltIcon,
+  Rule as RuleIcon,
+  SearchOff as SearchOffIcon,
+  ReportProblem as ReportProblemIcon,
+  Print as PrintIcon,
+  StopCircle as StopCircleIcon,
+  Category as CategoryIcon,
+  ViewList as ViewListIcon,
+  Tune as TuneIcon,
+  Autorenew as AutorenewIcon,
+  History as HistoryIcon,
+  Person as PersonIcon,
+  ChatBubbleOutline as ChatBubbleOutlineIcon,
 } from "@mui/icons-material";
+import { ExportDialog } from "./ExportDialog";
+import { ComplianceReportDialog } from "./ComplianceReportDialog";
+import { ComplianceCharts, type ComplianceFilter } from "./ComplianceCharts";
+import { JudgementFilterBar } from "./JudgementFilterBar";
+import { HighlightedText } from "./HighlightedText";
+import { SourceDocumentViewer } from "./SourceDocumentViewer";
+import { useJudgementFilter } from "../hooks/useJudgementFilter";
+import { usePdfDocument } from "../hooks/usePdfDocument";
+import {
+  filterAndSortJudgement,
+  splitQuery,
+  type JudgementEntry,
+} from "../utils/judgementFilter";
+import { JudgementReviewEditor } from "./JudgementReviewEditor";
+import { FitScorePanel } from "./FitScorePanel";
+import { PriorityChip } from "./PriorityChip";
+import { CategoryRulesDialog } from "./CategoryRulesDialog";
+import { RejudgeDialog } from "./RejudgeDialog";
+import { ReviewThreadPanel } from "./ReviewThreadPanel";
+import { ReviewProgressBar } from "./ReviewProgressBar";
+import { useCategoryRules } from "../hooks/useCategoryRules";
+import { computeFitScore } from "../utils/fitScore";
+import {
+  COMPLIANCE_STATUSES,
+  complianceRate,
+  countByStatus,
+  getCategory,
+  isInferredCategory,
+} from "../utils/compliance";
+import {
+  applyReview,
+  getReviewState,
+  isOverridden,
+  REVIEW_STATE_COLORS,
+  REVIEW_STATE_LABELS,
+} from "../utils/review";
+import type {
+  DifyWorkflowResult,
+  JudgementReview,
+  RequirementPriority,
+  ReviewThread,
+} from "../types/dify";
+import type { TeamSettings } from "../types/team";
+import { formatDate } from "../utils/format";
+import {
+  REFERENCE_STATUS_LABELS,
+  requiresReview,
+  verifyReferences,
+  type ReferenceStatus,
+  type ReferenceVerification,
+} from "../utils/verifyReferences";
 
-interface Assessment {
-  compliance_status: "○" | "△" | "×";
-  reasoning: string;
-  alternative_solution?: string;
-  reference_source?: string;
-  type?: string;
-}
-
-interface JudgementItem {
-  original_item: string;
-  assessment: Assessment;
-}
-
-interface DifyWorkflowResult {
-  id: string;
-  workflow_id: string;
-  status: "succeeded" | "failed" | "running" | "stopped";
-  outputs: {
-    judgement: JudgementItem[];
-  };
-  error?: string;
-  elapsed_time: number;
-  total_tokens: number;
-  total_steps: number;
-  created_at: number;
-  finished_at: number;
-}
+const REFERENCE_STATUS_CHIPS: Record<
+  ReferenceStatus,
+  { icon: React.ReactElement; color: "success" | "warning" | "error" }
+> = {
+  verified: { icon: <TaskAltIcon />, color: "success" },
+  partial: { icon: <RuleIcon />, color: "warning" },
+  not_found: { icon: <SearchOffIcon />, color: "error" },
+};
 
 interface DifyResultDisplayProps {
   result: DifyWorkflowResult;
   fileName?: string;
+  // 参照元の確認に使う元の提案書ファイル
+  sourceFile?: File;
+  onReviewChange?: (index: number, review: JudgementReview | null) => void;
+  onPriorityChange?: (
+    index: number,
+    priority: RequirementPriority | null
+  ) => void;
+  // 担当者の割り当て・対応状況・コメントに使うチーム設定
+  team?: TeamSettings;
+  onThreadChange?: (index: number, thread: ReviewThread) => void;
+  // 1項目だけを補足情報付きでワークフローに判定し直す
+  onRejudge?: (
+    index: number,
+    context: string,
+    signal: AbortSignal
+  ) => Promise<void>;
 }
 
 export const DifyResultDisplay: React.FC<DifyResultDisplayProps> = ({
   result,
   fileName,
+  sourceFile,
+  onReviewChange,
+  onPriorityChange,
+  onRejudge,
+  team,
+  onThreadChange,
 }) => {
-  const formatDate = (timestamp: number): string => {
-    return new Date(timestamp * 1000).toLocaleString("ja-JP");
-  };
+  const [exportOpen, setExportOpen] = useState(false);
+  const [reportGeneratedAt, setReportGeneratedAt] = useState<number | null>(
+    null
+  );
+  const [filter, setFilter] = useJudgementFilter();
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [viewerOpen, setViewerOpen] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [groupByCategory, setGroupByCategory] = useState(true);
+  const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(
+    new Set()
+  );
+  const [categoryRules, setCategoryRules] = useCategoryRules();
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [rejudgeIndex, setRejudgeIndex] = useState<number | null>(null);
+  const showViewer = viewerOpen && !!sourceFile;
+  const sourceDocument = usePdfDocument(sourceFile);
+
+  // 参照元の引用が原文に実在するかを照合する。PDF以外では照合しない
+  const verifications = useMemo(
+    () =>
+      sourceDocument.pages.length > 0
+        ? verifyReferences(result.outputs.judgement, sourceDocument.pages)
+        : null,
+    [result.outputs.judgement, sourceDocument.pages]
+  );
 
   const formatElapsedTime = (seconds: number): string => {
     return `${seconds.toFixed(2)}秒`;
@@ -111,17 +209,441 @@ export const DifyResultDisplay: React.FC<DifyResultDisplayProps> = ({
         return <CancelIcon sx={{ color: "#f44336" }} />;
       case "running":
         return <LinearProgress sx={{ width: 100 }} />;
+      case "stopped":
+        return <StopCircleIcon color="disabled" />;
       default:
         return <InfoIcon sx={{ color: "#2196f3" }} />;
     }
   };
 
-  const complianceStats = result.outputs.judgement.reduce((acc, item) => {
+  // 集計・グラフには担当者レビューを反映した値を使う
+  const reviewedJudgement = result.outputs.judgement.map(applyReview);
+
+  // 絞り込み・並び替え後も元のインデックスを保持する
+  const judgementEntries = result.outputs.judgement.map((item, index) => ({
+    item,
+    reviewed: reviewedJudgement[index],
+    index,
+    requiresReview:
+      !!verifications && requiresReview(item, verifications[index]),
+    assignedToMe:
+      !!team?.currentMemberId &&
+      item.thread?.assignee_id === team.currentMemberId,
+  }));
+  const filteredJudgement = filterAndSortJudgement(judgementEntries, filter);
+  const requiredReviewCount = judgementEntries.filter(
+    (entry) => entry.requiresReview
+  ).length;
+  const searchTerms = splitQuery(filter.query);
+  const categories = [...new Set(reviewedJudgement.map(getCategory))];
+
+  // カテゴリ別表示では、絞り込み後の項目を並び順で最初に現れたカテゴリごとにまとめる
+  // 件数・適合率は絞り込みに関係なくカテゴリ内の全項目で集計する
+  const categorySections = [
+    ...new Set(filteredJudgement.map(({ reviewed }) => getCategory(reviewed))),
+  ].map((category) => {
+    const items = reviewedJudgement.filter(
+      (item) => getCategory(item) === category
+    );
+    return {
+      category,
+      entries: filteredJudgement.filter(
+        ({ reviewed }) => getCategory(reviewed) === category
+      ),
+      total: items.length,
+      counts: countByStatus(items),
+      rate: complianceRate(items),
+    };
+  });
+
+  // グラフのセグメントは単一の適合状況・カテゴリでの絞り込みとして扱う
+  const chartFilter: ComplianceFilter | null =
+    filter.statuses.length === 1 || filter.categories.length === 1
+      ? {
+          status: filter.statuses.length === 1 ? filter.statuses[0] : undefined,
+          category:
+            filter.categories.length === 1 ? filter.categories[0] : undefined,
+        }
+      : null;
+
+  const handleChartFilterChange = (next: ComplianceFilter | null) => {
+    setFilter({
+      ...filter,
+      statuses: next?.status ? [next.status] : [],
+      categories: next?.category ? [next.category] : [],
+    });
+  };
+
+  const toggleExpanded = (index: number) => {
+    // 原文表示中は展開した項目の参照元を表示する
+    if (showViewer && !expanded.has(index)) setSelectedIndex(index);
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const toggleCategory = (category: string) => {
+    setCollapsedCategories((prev) => {
+      const next = new Set(prev);
+      if (next.has(category)) next.delete(category);
+      else next.add(category);
+      return next;
+    });
+  };
+
+  // 入札判断パネルから選んだ項目を展開して表示する
+  const focusItem = (index: number) => {
+    setExpanded((prev) => new Set(prev).add(index));
+    const category = getCategory(reviewedJudgement[index]);
+    setCollapsedCategories((prev) => {
+      const next = new Set(prev);
+      next.delete(category);
+      return next;
+    });
+    document
+      .getElementById(`judgement-item-${index}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  const showInSource = (index: number) => {
+    setViewerOpen(true);
+    setSelectedIndex(index);
+  };
+
+  const selectedQuote =
+    selectedIndex !== null
+      ? result.outputs.judgement[selectedIndex]?.assessment.reference_source
+      : null;
+
+  const renderReferenceChip = (verification: ReferenceVerification | null) => {
+    if (!verification) {
+      return <Chip label="参照元なし" size="small" variant="outlined" />;
+    }
+    const { icon, color } = REFERENCE_STATUS_CHIPS[verification.status];
+    return (
+      <Tooltip
+        title={`参照元の照合: 一致度 ${Math.round(verification.score * 100)}%${
+          verification.match ? `（${verification.match.pageNumber}ページ）` : ""
+        }`}
+      >
+        <Chip
+          icon={icon}
+          label={REFERENCE_STATUS_LABELS[verification.status]}
+          size="small"
+          color={color}
+          variant="outlined"
+        />
+      </Tooltip>
+    );
+  };
+
+  const confirmedCount = result.outputs.judgement.filter(
+    (item) => getReviewState(item) === "done"
+  ).length;
+
+  const fitScore = computeFitScore(reviewedJudgement);
+
+  const complianceStats = reviewedJudgement.reduce((acc, item) => {
     acc[item.assessment.compliance_status] =
       (acc[item.assessment.compliance_status] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
 
+  const renderJudgementItem = ({
+    item,
+    reviewed,
+    index,
+    requiresReview: reviewRequired,
+  }: JudgementEntry) => (
+    <Accordion
+      key={index}
+      id={`judgement-item-${index}`}
+      sx={{ mb: 1 }}
+      expanded={expanded.has(index)}
+      onChange={() => toggleExpanded(index)}
+    >
+      <AccordionSummary
+        expandIcon={<ExpandMoreIcon />}
+        sx={{
+          "& .MuiAccordionSummary-content": {
+            alignItems: "center",
+          },
+        }}
+      >
+        <Box
+          sx={{
+            display: "flex",
+            alignItems: "center",
+            gap: 2,
+            width: "100%",
+          }}
+        >
+          <Chip
+            icon={getComplianceStatusIcon(
+              reviewed.assessment.compliance_status
+            )}
+            label={reviewed.assessment.compliance_status}
+            color={
+              getComplianceStatusColor(
+                reviewed.assessment.compliance_status
+              ) as "success" | "warning" | "error" | "default"
+            }
+            size="small"
+          />
+          <PriorityChip
+            item={item}
+            onChange={
+              onPriorityChange
+                ? (priority) => onPriorityChange(index, priority)
+                : undefined
+            }
+          />
+          {isOverridden(item) && (
+            <Tooltip title="AIの判定（担当者が上書き）">
+              <Chip
+                label={`AI: ${item.assessment.compliance_status}`}
+                size="small"
+                variant="outlined"
+                sx={{ textDecoration: "line-through" }}
+              />
+            </Tooltip>
+          )}
+          {item.revisions && (
+            <Tooltip title={`${item.revisions.length - 1}回再判定しました`}>
+              <Chip
+                icon={<AutorenewIcon />}
+                label="再判定済み"
+                size="small"
+                color="info"
+                variant="outlined"
+              />
+            </Tooltip>
+          )}
+          {reviewRequired && (
+            <Tooltip title="参照元を原文で確認できないため、担当者の確認が必要です">
+              <Chip
+                icon={<ReportProblemIcon />}
+                label="要確認"
+                size="small"
+                color="error"
+              />
+            </Tooltip>
+          )}
+          {verifications && renderReferenceChip(verifications[index])}
+          {getReviewState(item) !== "todo" && (
+            <Chip
+              icon={getReviewState(item) === "done" ? <VerifiedIcon /> : undefined}
+              label={REVIEW_STATE_LABELS[getReviewState(item)]}
+              size="small"
+              color={REVIEW_STATE_COLORS[getReviewState(item)]}
+              variant="outlined"
+            />
+          )}
+          {item.thread?.assignee_name && (
+            <Chip
+              icon={<PersonIcon />}
+              label={item.thread.assignee_name}
+              size="small"
+              variant="outlined"
+            />
+          )}
+          {!!item.thread?.comments.length && (
+            <Tooltip title="コメント">
+              <Chip
+                icon={<ChatBubbleOutlineIcon />}
+                label={item.thread.comments.length}
+                size="small"
+                variant="outlined"
+              />
+            </Tooltip>
+          )}
+          {!groupByCategory && (
+            <Tooltip
+              title={
+                isInferredCategory(item)
+                  ? "分類ルールによる推定"
+                  : "ワークフローが判定したカテゴリ"
+              }
+            >
+              <Chip
+                label={getCategory(item)}
+                size="small"
+                variant="outlined"
+                sx={isInferredCategory(item) ? { borderStyle: "dashed" } : undefined}
+              />
+            </Tooltip>
+          )}
+          {item.row_number !== undefined && (
+            <Chip
+              label={`行 ${item.row_number}`}
+              size="small"
+              variant="outlined"
+            />
+          )}
+          <Typography variant="body1" sx={{ flex: 1 }}>
+            <HighlightedText text={item.original_item} terms={searchTerms} />
+          </Typography>
+        </Box>
+      </AccordionSummary>
+      <AccordionDetails>
+        <Stack spacing={2}>
+          {/* 判定理由 */}
+          <Box>
+            <Typography variant="subtitle2" gutterBottom color="primary">
+              判定理由{isOverridden(item) && "（AI）"}:
+            </Typography>
+            <Typography
+              variant="body2"
+              sx={{ pl: 2, borderLeft: "3px solid #e0e0e0" }}
+            >
+              <HighlightedText
+                text={item.assessment.reasoning}
+                terms={searchTerms}
+              />
+            </Typography>
+          </Box>
+
+          {/* 参照元 */}
+          {item.assessment.reference_source && (
+            <Box>
+              <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                <Typography
+                  variant="subtitle2"
+                  gutterBottom
+                  color="secondary"
+                >
+                  参照元:
+                </Typography>
+                {sourceFile && (
+                  <Button
+                    size="small"
+                    startIcon={<FindInPageIcon />}
+                    onClick={() => showInSource(index)}
+                    sx={{ ml: "auto" }}
+                  >
+                    原文で確認
+                  </Button>
+                )}
+              </Box>
+              <Paper sx={{ p: 2, backgroundColor: "#f5f5f5" }}>
+                <Typography variant="body2" style={{ fontStyle: "italic" }}>
+                  "
+                  <HighlightedText
+                    text={item.assessment.reference_source}
+                    terms={searchTerms}
+                  />
+                  "
+                </Typography>
+              </Paper>
+            </Box>
+          )}
+
+          {/* 代替案 */}
+          {item.assessment.alternative_solution && (
+            <Box>
+              <Typography
+                variant="subtitle2"
+                gutterBottom
+                color="warning.main"
+              >
+                代替案{isOverridden(item) && "（AI）"}:
+              </Typography>
+              <Alert
+                severity="info"
+                sx={{ "& .MuiAlert-message": { width: "100%" } }}
+              >
+                {item.assessment.alternative_solution}
+              </Alert>
+            </Box>
+          )}
+
+          {/* 判定履歴 */}
+          {item.revisions && (
+            <Box>
+              <Typography
+                variant="subtitle2"
+                gutterBottom
+                sx={{ display: "flex", alignItems: "center", gap: 0.5 }}
+              >
+                <HistoryIcon fontSize="small" />
+                判定履歴:
+              </Typography>
+              <Stack spacing={1} sx={{ pl: 2, borderLeft: "3px solid #e0e0e0" }}>
+                {item.revisions
+                  .slice(0, -1)
+                  .reverse()
+                  .map((revision, i, previous) => (
+                    <Box key={i}>
+                      <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                        <Chip
+                          label={revision.assessment.compliance_status}
+                          size="small"
+                          variant="outlined"
+                        />
+                        <Typography variant="caption" color="text.secondary">
+                          {i === previous.length - 1
+                            ? "最初の判定"
+                            : "再判定"}
+                          （{formatDate(revision.judged_at)}）
+                        </Typography>
+                      </Box>
+                      <Typography variant="body2" color="text.secondary">
+                        {revision.assessment.reasoning}
+                      </Typography>
+                      {revision.context && (
+                        <Typography variant="caption" color="text.secondary">
+                          補足情報: {revision.context}
+                        </Typography>
+                      )}
+                    </Box>
+                  ))}
+              </Stack>
+              {item.revisions[item.revisions.length - 1].context && (
+                <Typography variant="caption" color="text.secondary" sx={{ display: "block", mt: 1 }}>
+                  現在の判定の補足情報:{" "}
+                  {item.revisions[item.revisions.length - 1].context}
+                </Typography>
+              )}
+            </Box>
+          )}
+
+          {onRejudge && (
+            <Box>
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<AutorenewIcon />}
+                onClick={() => setRejudgeIndex(index)}
+              >
+                再判定
+              </Button>
+            </Box>
+          )}
+
+          {/* 担当者レビュー */}
+          {onReviewChange && (
+            <JudgementReviewEditor
+              key={item.review?.reviewed_at ?? "ai"}
+              item={item}
+              onChange={(review) => onReviewChange(index, review)}
+            />
+          )}
+
+          {/* 担当・コメント */}
+          {onThreadChange && team && (
+            <ReviewThreadPanel
+              item={item}
+              team={team}
+              onChange={(thread) => onThreadChange(index, thread)}
+            />
+          )}
+        </Stack>
+      </AccordionDetails>
+    </Accordion>
+  );
 
   return (
     <Paper elevation={3} sx={{ p: 3 }}>
@@ -153,10 +675,43 @@ export const DifyResultDisplay: React.FC<DifyResultDisplayProps> = ({
               gap: 1,
             }}
           >
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<DownloadIcon />}
+              onClick={() => setExportOpen(true)}
+              disabled={result.outputs.judgement.length === 0}
+            >
+              エクスポート
+            </Button>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<PrintIcon />}
+              onClick={() => setReportGeneratedAt(Date.now() / 1000)}
+            >
+              レポート
+            </Button>
+            {sourceFile && (
+              <Button
+                variant={viewerOpen ? "contained" : "outlined"}
+                size="small"
+                startIcon={<DescriptionIcon />}
+                onClick={() => setViewerOpen((open) => !open)}
+              >
+                {viewerOpen ? "原文を閉じる" : "原文を表示"}
+              </Button>
+            )}
             {getStatusIcon(result.status)}
             <Chip
               label={result.status.toUpperCase()}
-              color={result.status === "succeeded" ? "success" : "error"}
+              color={
+                result.status === "succeeded"
+                  ? "success"
+                  : result.status === "stopped"
+                    ? "default"
+                    : "error"
+              }
               variant="filled"
             />
           </Box>
@@ -214,6 +769,15 @@ export const DifyResultDisplay: React.FC<DifyResultDisplayProps> = ({
           </Card>
         </Stack>
 
+        {/* 入札判断 */}
+        {reviewedJudgement.length > 0 && (
+          <FitScorePanel
+            summary={fitScore}
+            items={reviewedJudgement}
+            onSelectItem={focusItem}
+          />
+        )}
+
         {/* 適合性統計 - グラフ表示 */}
         <Card variant="outlined" sx={{ mb: 2 }}>
           <CardContent>
@@ -221,6 +785,12 @@ export const DifyResultDisplay: React.FC<DifyResultDisplayProps> = ({
               適合性サマリー
             </Typography>
             <Box>
+              <ComplianceCharts
+                items={reviewedJudgement}
+                filter={chartFilter}
+                onFilterChange={handleChartFilterChange}
+              />
+              <Divider sx={{ my: 2 }} />
               {/* 統計チップ */}
               <Box
                 sx={{
@@ -262,7 +832,8 @@ export const DifyResultDisplay: React.FC<DifyResultDisplayProps> = ({
                   ))}
                   <Divider sx={{ my: 1 }} />
                   <Typography variant="body2" color="text.secondary">
-                    総項目数: {result.outputs.judgement.length}件
+                    総項目数: {result.outputs.judgement.length}件（確認済み:{" "}
+                    {confirmedCount}件）
                   </Typography>
                 </Stack>
               </Box>
@@ -283,97 +854,174 @@ export const DifyResultDisplay: React.FC<DifyResultDisplayProps> = ({
       <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>
         詳細判定結果
       </Typography>
+      {sourceDocument.loading && (
+        <Alert severity="info" icon={false} sx={{ mb: 2 }}>
+          <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+            参照元を原文と照合しています...
+            <LinearProgress sx={{ flex: 1 }} />
+          </Box>
+        </Alert>
+      )}
+      {requiredReviewCount > 0 && (
+        <Alert
+          severity="warning"
+          icon={<ReportProblemIcon />}
+          sx={{ mb: 2 }}
+          action={
+            filter.review !== "required" && (
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => setFilter({ ...filter, review: "required" })}
+              >
+                要確認のみ表示
+              </Button>
+            )
+          }
+        >
+          参照元を原文で確認できない「○」判定が{requiredReviewCount}
+          件あります。担当者が内容を確認してください。
+        </Alert>
+      )}
+      <ReviewProgressBar
+        items={result.outputs.judgement}
+        myItemCount={
+          team?.currentMemberId
+            ? judgementEntries.filter((entry) => entry.assignedToMe).length
+            : null
+        }
+        onSelectState={(reviewState) => setFilter({ ...filter, reviewState })}
+        onShowMine={() => setFilter({ ...filter, assignee: "mine" })}
+      />
+      <JudgementFilterBar
+        filter={filter}
+        onChange={setFilter}
+        categories={categories}
+        resultCount={filteredJudgement.length}
+        totalCount={result.outputs.judgement.length}
+        onExpandAll={() => {
+          setExpanded(new Set(filteredJudgement.map(({ index }) => index)));
+          setCollapsedCategories(new Set());
+        }}
+        onCollapseAll={() => setExpanded(new Set())}
+      />
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 2 }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={groupByCategory ? "category" : "list"}
+          onChange={(_, value: string | null) =>
+            value && setGroupByCategory(value === "category")
+          }
+        >
+          <ToggleButton value="category">
+            <CategoryIcon fontSize="small" sx={{ mr: 0.5 }} />
+            カテゴリ別
+          </ToggleButton>
+          <ToggleButton value="list">
+            <ViewListIcon fontSize="small" sx={{ mr: 0.5 }} />
+            一覧
+          </ToggleButton>
+        </ToggleButtonGroup>
+        <Button
+          size="small"
+          startIcon={<TuneIcon />}
+          onClick={() => setRulesOpen(true)}
+        >
+          分類ルール
+        </Button>
+      </Box>
+
+      <Box sx={{ display: "flex", gap: 2, alignItems: "flex-start" }}>
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          {groupByCategory
+            ? categorySections.map((section) => {
+                const open = !collapsedCategories.has(section.category);
+                return (
+                  <Box key={section.category} sx={{ mb: 2 }}>
+                    <Paper
+                      variant="outlined"
+                      onClick={() => toggleCategory(section.category)}
+                      sx={{
+                        display: "flex",
+                        alignItems: "center",
+                        flexWrap: "wrap",
+                        gap: 1,
+                        px: 2,
+                        py: 1,
+                        mb: 1,
+                        cursor: "pointer",
+                        backgroundColor: "#fafafa",
+                      }}
+                    >
+                      <ExpandMoreIcon
+                        fontSize="small"
+                        sx={{
+                          transform: open ? "none" : "rotate(-90deg)",
+                          transition: "transform 0.2s",
+                        }}
+                      />
+                      <Typography variant="subtitle1" sx={{ fontWeight: "bold" }}>
+                        {section.category}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {section.entries.length === section.total
+                          ? `${section.total}件`
+                          : `${section.entries.length} / ${section.total}件`}
+                      </Typography>
+                      <Box sx={{ ml: "auto", display: "flex", alignItems: "center", gap: 1 }}>
+                        {COMPLIANCE_STATUSES.map((status) => (
+                          <Chip
+                            key={status}
+                            label={`${status} ${section.counts[status]}`}
+                            size="small"
+                            color={
+                              getComplianceStatusColor(status) as
+                                | "success"
+                                | "warning"
+                                | "error"
+                            }
+                            variant={section.counts[status] > 0 ? "filled" : "outlined"}
+                          />
+                        ))}
+                        <Typography variant="body2" sx={{ minWidth: 80, textAlign: "right" }}>
+                          適合率 {section.rate}%
+                        </Typography>
+                      </Box>
+                    </Paper>
+                    <Collapse in={open}>
+                      {section.entries.map(renderJudgementItem)}
+                    </Collapse>
+                  </Box>
+                );
+              })
+            : filteredJudgement.map(renderJudgementItem)}
 
-      {result.outputs.judgement.map((item, index) => (
-        <Accordion key={index} sx={{ mb: 1 }}>
-          <AccordionSummary
-            expandIcon={<ExpandMoreIcon />}
+          {filteredJudgement.length === 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: "center" }}>
+              条件に一致する判定項目はありません
+            </Typography>
+          )}
+        </Box>
+
+        {/* 原文ビューア */}
+        {showViewer && sourceFile && (
+          <Box
             sx={{
-              "& .MuiAccordionSummary-content": {
-                alignItems: "center",
-              },
+              width: "45%",
+              flexShrink: 0,
+              position: "sticky",
+              top: 16,
             }}
           >
-            <Box
-              sx={{
-                display: "flex",
-                alignItems: "center",
-                gap: 2,
-                width: "100%",
-              }}
-            >
-              <Chip
-                icon={getComplianceStatusIcon(
-                  item.assessment.compliance_status
-                )}
-                label={item.assessment.compliance_status}
-                color={
-                  getComplianceStatusColor(
-                    item.assessment.compliance_status
-                  ) as "success" | "warning" | "error" | "default"
-                }
-                size="small"
-              />
-              <Typography variant="body1" sx={{ flex: 1 }}>
-                {item.original_item}
-              </Typography>
-            </Box>
-          </AccordionSummary>
-          <AccordionDetails>
-            <Stack spacing={2}>
-              {/* 判定理由 */}
-              <Box>
-                <Typography variant="subtitle2" gutterBottom color="primary">
-                  判定理由:
-                </Typography>
-                <Typography
-                  variant="body2"
-                  sx={{ pl: 2, borderLeft: "3px solid #e0e0e0" }}
-                >
-                  {item.assessment.reasoning}
-                </Typography>
-              </Box>
-
-              {/* 参照元 */}
-              {item.assessment.reference_source && (
-                <Box>
-                  <Typography
-                    variant="subtitle2"
-                    gutterBottom
-                    color="secondary"
-                  >
-                    参照元:
-                  </Typography>
-                  <Paper sx={{ p: 2, backgroundColor: "#f5f5f5" }}>
-                    <Typography variant="body2" style={{ fontStyle: "italic" }}>
-                      "{item.assessment.reference_source}"
-                    </Typography>
-                  </Paper>
-                </Box>
-              )}
-
-              {/* 代替案 */}
-              {item.assessment.alternative_solution && (
-                <Box>
-                  <Typography
-                    variant="subtitle2"
-                    gutterBottom
-                    color="warning.main"
-                  >
-                    代替案:
-                  </Typography>
-                  <Alert
-                    severity="info"
-                    sx={{ "& .MuiAlert-message": { width: "100%" } }}
-                  >
-                    {item.assessment.alternative_solution}
-                  </Alert>
-                </Box>
-              )}
-            </Stack>
-          </AccordionDetails>
-        </Accordion>
-      ))}
+            <SourceDocumentViewer
+              file={sourceFile}
+              document={sourceDocument}
+              quote={selectedQuote}
+            />
+          </Box>
+        )}
+      </Box>
 
       {/* フッター情報 */}
       <Divider sx={{ my: 3 }} />
@@ -397,6 +1045,44 @@ export const DifyResultDisplay: React.FC<DifyResultDisplayProps> = ({
           {formatDate(result.finished_at)}
         </Typography>
       </Box>
+
+      <ExportDialog
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        items={result.outputs.judgement}
+        fileName={fileName}
+      />
+      <ComplianceReportDialog
+        generatedAt={reportGeneratedAt}
+        onClose={() => setReportGeneratedAt(null)}
+        result={result}
+        fileName={fileName}
+        verifications={verifications}
+      />
+      {onRejudge && (
+        <RejudgeDialog
+          item={
+            rejudgeIndex !== null
+              ? result.outputs.judgement[rejudgeIndex] ?? null
+              : null
+          }
+          onClose={() => setRejudgeIndex(null)}
+          onSubmit={async (context, signal) => {
+            if (rejudgeIndex !== null) {
+              await onRejudge(rejudgeIndex, context, signal);
+            }
+          }}
+        />
+      )}
+      <CategoryRulesDialog
+        open={rulesOpen}
+        onClose={() => setRulesOpen(false)}
+        rules={categoryRules}
+        onSave={(rules) => {
+          setCategoryRules(rules);
+          setRulesOpen(false);
+        }}
+      />
     </Paper>
   );
 };
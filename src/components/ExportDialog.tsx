@@ -0,0 +1,300 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import {
+  Add as AddIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  ArrowDownward as ArrowDownwardIcon,
+  Delete as DeleteIcon,
+  Download as DownloadIcon,
+  Save as SaveIcon,
+} from "@mui/icons-material";
+import type { Assessment, JudgementItem } from "../types/dify";
+import {
+  DEFAULT_EXPORT_TEMPLATE,
+  EXPORT_FIELD_LABELS,
+  exportJudgement,
+  type ExportField,
+  type ExportFormat,
+  type ExportTemplate,
+} from "../utils/exportJudgement";
+import {
+  loadExportTemplates,
+  saveExportTemplates,
+} from "../storage/exportTemplates";
+
+interface ExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  items: JudgementItem[];
+  fileName?: string;
+}
+
+const STATUSES: Assessment["compliance_status"][] = ["○", "△", "×"];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  onClose,
+  items,
+  fileName,
+}) => {
+  const [templates, setTemplates] = useState<ExportTemplate[]>(() =>
+    loadExportTemplates()
+  );
+  const [draft, setDraft] = useState<ExportTemplate>(DEFAULT_EXPORT_TEMPLATE);
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+
+  const isDefault = draft.id === DEFAULT_EXPORT_TEMPLATE.id;
+
+  const updateTemplates = (next: ExportTemplate[]) => {
+    setTemplates(next);
+    saveExportTemplates(next);
+  };
+
+  const selectTemplate = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (template) setDraft(structuredClone(template));
+  };
+
+  const updateColumn = (
+    index: number,
+    patch: Partial<ExportTemplate["columns"][number]>
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      columns: prev.columns.map((column, i) =>
+        i === index ? { ...column, ...patch } : column
+      ),
+    }));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setDraft((prev) => {
+      const columns = [...prev.columns];
+      const target = index + offset;
+      if (target < 0 || target >= columns.length) return prev;
+      [columns[index], columns[target]] = [columns[target], columns[index]];
+      return { ...prev, columns };
+    });
+  };
+
+  const removeColumn = (index: number) => {
+    setDraft((prev) => ({
+      ...prev,
+      columns: prev.columns.filter((_, i) => i !== index),
+    }));
+  };
+
+  const addColumn = () => {
+    setDraft((prev) => ({
+      ...prev,
+      columns: [...prev.columns, { field: "blank", header: "" }],
+    }));
+  };
+
+  const handleSaveTemplate = () => {
+    // 標準テンプレートは上書きせず、新しいテンプレートとして保存する
+    const template: ExportTemplate = isDefault
+      ? {
+          ...draft,
+          id: `template_${Date.now()}`,
+          name: draft.name === DEFAULT_EXPORT_TEMPLATE.name ? "カスタム" : draft.name,
+        }
+      : draft;
+    const exists = templates.some((t) => t.id === template.id);
+    updateTemplates(
+      exists
+        ? templates.map((t) => (t.id === template.id ? template : t))
+        : [...templates, template]
+    );
+    setDraft(template);
+  };
+
+  const handleDeleteTemplate = () => {
+    updateTemplates(templates.filter((t) => t.id !== draft.id));
+    setDraft(DEFAULT_EXPORT_TEMPLATE);
+  };
+
+  const handleExport = () => {
+    exportJudgement(items, draft, format, fileName || "judgement");
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>判定結果のエクスポート</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel id="export-template-label">テンプレート</InputLabel>
+              <Select
+                labelId="export-template-label"
+                label="テンプレート"
+                value={templates.some((t) => t.id === draft.id) ? draft.id : ""}
+                onChange={(e) => selectTemplate(e.target.value)}
+              >
+                {templates.map((template) => (
+                  <MenuItem key={template.id} value={template.id}>
+                    {template.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={format}
+              onChange={(_, value: ExportFormat | null) =>
+                value && setFormat(value)
+              }
+            >
+              <ToggleButton value="xlsx">Excel (XLSX)</ToggleButton>
+              <ToggleButton value="csv">CSV</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+
+          <Box sx={{ display: "flex", gap: 2 }}>
+            <TextField
+              size="small"
+              label="テンプレート名"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              size="small"
+              label="シート名"
+              value={draft.sheetName}
+              onChange={(e) => setDraft({ ...draft, sheetName: e.target.value })}
+              sx={{ flex: 1 }}
+              disabled={format === "csv"}
+            />
+          </Box>
+
+          <Divider />
+          <Typography variant="subtitle2">列の対応付け</Typography>
+          {draft.columns.map((column, index) => (
+            <Box
+              key={index}
+              sx={{ display: "flex", gap: 1, alignItems: "center" }}
+            >
+              <Typography variant="body2" sx={{ width: 24 }}>
+                {index + 1}
+              </Typography>
+              <Select
+                size="small"
+                value={column.field}
+                onChange={(e) =>
+                  updateColumn(index, { field: e.target.value as ExportField })
+                }
+                sx={{ minWidth: 160 }}
+              >
+                {(Object.keys(EXPORT_FIELD_LABELS) as ExportField[]).map(
+                  (field) => (
+                    <MenuItem key={field} value={field}>
+                      {EXPORT_FIELD_LABELS[field]}
+                    </MenuItem>
+                  )
+                )}
+              </Select>
+              <TextField
+                size="small"
+                label="見出し"
+                value={column.header}
+                onChange={(e) => updateColumn(index, { header: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+              <IconButton
+                size="small"
+                onClick={() => moveColumn(index, -1)}
+                disabled={index === 0}
+              >
+                <ArrowUpwardIcon fontSize="small" />
+              </IconButton>
+              <IconButton
+                size="small"
+                onClick={() => moveColumn(index, 1)}
+                disabled={index === draft.columns.length - 1}
+              >
+                <ArrowDownwardIcon fontSize="small" />
+              </IconButton>
+              <IconButton size="small" onClick={() => removeColumn(index)}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          <Box>
+            <Button size="small" startIcon={<AddIcon />} onClick={addColumn}>
+              列を追加
+            </Button>
+          </Box>
+
+          <Divider />
+          <Typography variant="subtitle2">対応可否の表記</Typography>
+          <Box sx={{ display: "flex", gap: 2 }}>
+            {STATUSES.map((status) => (
+              <TextField
+                key={status}
+                size="small"
+                label={status}
+                placeholder={status}
+                value={draft.statusLabels?.[status] ?? ""}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    statusLabels: {
+                      ...draft.statusLabels,
+                      [status]: e.target.value,
+                    },
+                  })
+                }
+                sx={{ flex: 1 }}
+              />
+            ))}
+          </Box>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        {!isDefault && (
+          <Button color="error" onClick={handleDeleteTemplate}>
+            テンプレートを削除
+          </Button>
+        )}
+        <Tooltip title={isDefault ? "新しいテンプレートとして保存" : "上書き保存"}>
+          <Button startIcon={<SaveIcon />} onClick={handleSaveTemplate}>
+            テンプレートを保存
+          </Button>
+        </Tooltip>
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={onClose}>キャンセル</Button>
+        <Button
+          variant="contained"
+          startIcon={<DownloadIcon />}
+          onClick={handleExport}
+          disabled={draft.columns.length === 0 || items.length === 0}
+        >
+          エクスポート
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
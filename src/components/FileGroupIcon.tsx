@@ -0,0 +1,63 @@
+import React from "react";
+import { Chip, type ChipProps, type SvgIconProps } from "@mui/material";
+import {
+  Image as ImageIcon,
+  PictureAsPdf as PdfIcon,
+  Description as DescriptionIcon,
+  GridOn as GridOnIcon,
+  Slideshow as SlideshowIcon,
+  Article as ArticleIcon,
+} from "@mui/icons-material";
+import { FILE_GROUP_LABELS, type FileGroup } from "../utils/fileType";
+
+const ICONS: Record<FileGroup, React.ElementType<SvgIconProps>> = {
+  pdf: PdfIcon,
+  word: DescriptionIcon,
+  excel: GridOnIcon,
+  powerpoint: SlideshowIcon,
+  text: ArticleIcon,
+  image: ImageIcon,
+};
+
+const COLORS: Record<FileGroup, "primary" | "success" | "warning" | "error" | "info"> = {
+  pdf: "error",
+  word: "primary",
+  excel: "success",
+  powerpoint: "warning",
+  text: "info",
+  image: "primary",
+};
+
+interface FileGroupIconProps extends SvgIconProps {
+  group: FileGroup;
+}
+
+export const FileGroupIcon: React.FC<FileGroupIconProps> = ({
+  group,
+  ...props
+}) => {
+  const Icon = ICONS[group];
+  return <Icon color={COLORS[group]} {...props} />;
+};
+
+interface FileGroupChipProps extends Omit<ChipProps, "icon" | "label"> {
+  group: FileGroup;
+  // 既定ではファイルの種類に応じた色を付ける
+  colored?: boolean;
+}
+
+export const FileGroupChip: React.FC<FileGroupChipProps> = ({
+  group,
+  colored = true,
+  ...props
+}) => {
+  const Icon = ICONS[group];
+  return (
+    <Chip
+      label={FILE_GROUP_LABELS[group]}
+      icon={<Icon />}
+      color={colored ? COLORS[group] : "default"}
+      {...props}
+    />
+  );
+};
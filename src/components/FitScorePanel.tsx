@@ -0,0 +1,145 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  Divider,
+  LinearProgress,
+  Stack,
+  Typography,
+} from "@mui/material";
+import {
+  Gavel as GavelIcon,
+  Block as BlockIcon,
+} from "@mui/icons-material";
+import type { JudgementItem } from "../types/dify";
+import { COMPLIANCE_STATUSES } from "../utils/compliance";
+import {
+  COMPLIANCE_SCORES,
+  FIT_RECOMMENDATION_LABELS,
+  FIT_SCORE_THRESHOLDS,
+  PRIORITY_LABELS,
+  PRIORITY_WEIGHTS,
+  REQUIREMENT_PRIORITIES,
+  type FitRecommendation,
+  type FitScoreSummary,
+} from "../utils/fitScore";
+
+interface FitScorePanelProps {
+  summary: FitScoreSummary;
+  // レビューを反映した判定項目（blockingIndexes の参照先）
+  items: JudgementItem[];
+  onSelectItem?: (index: number) => void;
+}
+
+const RECOMMENDATION_COLORS: Record<FitRecommendation, "success" | "warning" | "error"> = {
+  go: "success",
+  conditional: "warning",
+  no_go: "error",
+};
+
+export const FitScorePanel: React.FC<FitScorePanelProps> = ({
+  summary,
+  items,
+  onSelectItem,
+}) => {
+  const color = RECOMMENDATION_COLORS[summary.recommendation];
+
+  return (
+    <Card variant="outlined" sx={{ mb: 2 }}>
+      <CardContent>
+        <Typography
+          variant="h6"
+          gutterBottom
+          sx={{ display: "flex", alignItems: "center", gap: 1 }}
+        >
+          <GavelIcon color="action" />
+          入札判断
+        </Typography>
+        <Box sx={{ display: "flex", gap: 3, flexWrap: "wrap" }}>
+          <Box sx={{ minWidth: 200 }}>
+            <Typography variant="body2" color="text.secondary">
+              加重適合スコア
+            </Typography>
+            <Typography variant="h3" color={`${color}.main`}>
+              {summary.score}%
+            </Typography>
+            <LinearProgress
+              variant="determinate"
+              value={summary.score}
+              color={color}
+              sx={{ height: 8, borderRadius: 4, my: 1 }}
+            />
+            <Chip
+              label={FIT_RECOMMENDATION_LABELS[summary.recommendation]}
+              color={color}
+              sx={{ fontWeight: "bold" }}
+            />
+          </Box>
+
+          <Box sx={{ flex: 1, minWidth: 260 }}>
+            <Box component="ul" sx={{ m: 0, pl: 2 }}>
+              {summary.reasons.map((reason) => (
+                <li key={reason}>
+                  <Typography variant="body2">{reason}</Typography>
+                </li>
+              ))}
+            </Box>
+            <Stack direction="row" spacing={1} sx={{ mt: 2, flexWrap: "wrap" }}>
+              {REQUIREMENT_PRIORITIES.map((priority) => (
+                <Chip
+                  key={priority}
+                  size="small"
+                  variant="outlined"
+                  label={`${PRIORITY_LABELS[priority]} ${summary.byPriority[priority].count}件（重み${PRIORITY_WEIGHTS[priority]}）: ${
+                    summary.byPriority[priority].count > 0
+                      ? `${summary.byPriority[priority].score}%`
+                      : "-"
+                  }`}
+                />
+              ))}
+            </Stack>
+          </Box>
+        </Box>
+
+        {summary.blockingIndexes.length > 0 && (
+          <Alert severity="error" icon={<BlockIcon />} sx={{ mt: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              必須要件で「×」の項目
+            </Typography>
+            <Box component="ul" sx={{ m: 0, pl: 2 }}>
+              {summary.blockingIndexes.map((index) => (
+                <li key={index}>
+                  <Typography
+                    variant="body2"
+                    onClick={onSelectItem ? () => onSelectItem(index) : undefined}
+                    sx={onSelectItem ? { cursor: "pointer", textDecoration: "underline" } : undefined}
+                  >
+                    {items[index].original_item}
+                  </Typography>
+                </li>
+              ))}
+            </Box>
+          </Alert>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+        <Typography variant="caption" color="text.secondary" component="div">
+          判定基準: 必須要件に「×」が1件でもあれば No-Go。それ以外はスコア
+          {FIT_SCORE_THRESHOLDS.go}%以上で Go、{FIT_SCORE_THRESHOLDS.conditional}
+          %以上で要検討、未満は No-Go。スコアは{" "}
+          {COMPLIANCE_STATUSES.map(
+            (status) => `${status}=${COMPLIANCE_SCORES[status]}`
+          ).join("・")}{" "}
+          を重要度の重み（
+          {REQUIREMENT_PRIORITIES.map(
+            (priority) => `${PRIORITY_LABELS[priority]}${PRIORITY_WEIGHTS[priority]}`
+          ).join("・")}
+          ）で加重平均した値です。重要度は各項目のラベルから変更できます。
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,50 @@
+import React from "react";
+import { Box } from "@mui/material";
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * 検索語に一致する部分をハイライトして表示する
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  terms,
+}) => {
+  if (terms.length === 0) {
+    return <>{text}</>;
+  }
+
+  // 全角・半角の違いを吸収するため正規化した文字列で一致位置を探す
+  // 正規化で文字数が変わる場合は元の文字列で探す
+  const normalized = text.normalize("NFKC");
+  const target = normalized.length === text.length ? normalized : text;
+  const pattern = new RegExp(terms.map(escapeRegExp).join("|"), "gi");
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const match of target.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (end === start) continue;
+    parts.push(text.slice(cursor, start));
+    parts.push(
+      <Box
+        key={start}
+        component="mark"
+        sx={{ backgroundColor: "#fff176", px: 0.25, borderRadius: 0.5 }}
+      >
+        {text.slice(start, end)}
+      </Box>
+    );
+    cursor = end;
+  }
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
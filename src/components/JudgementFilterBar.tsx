@@ -0,0 +1,243 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  FormControl,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import {
+  Search as SearchIcon,
+  UnfoldMore as UnfoldMoreIcon,
+  UnfoldLess as UnfoldLessIcon,
+  FilterAltOff as FilterAltOffIcon,
+} from "@mui/icons-material";
+import { COMPLIANCE_STATUSES, type ComplianceStatus } from "../utils/compliance";
+import { REVIEW_STATE_LABELS, REVIEW_STATES } from "../utils/review";
+import {
+  DEFAULT_JUDGEMENT_FILTER,
+  JUDGEMENT_SORT_LABELS,
+  isFilterActive,
+  type AlternativeFilter,
+  type AssigneeFilter,
+  type JudgementFilterState,
+  type JudgementSort,
+  type ReviewFilter,
+  type ReviewStateFilter,
+} from "../utils/judgementFilter";
+
+interface JudgementFilterBarProps {
+  filter: JudgementFilterState;
+  onChange: (filter: JudgementFilterState) => void;
+  categories: string[];
+  resultCount: number;
+  totalCount: number;
+  onExpandAll: () => void;
+  onCollapseAll: () => void;
+}
+
+const REVIEW_FILTER_LABELS: Record<ReviewFilter, string> = {
+  all: "すべて",
+  confirmed: "確認済み",
+  unconfirmed: "未確認",
+  overridden: "上書きあり",
+  required: "要確認",
+};
+
+const ASSIGNEE_FILTER_LABELS: Record<AssigneeFilter, string> = {
+  all: "すべて",
+  mine: "自分の担当",
+  unassigned: "未割り当て",
+};
+
+const ALTERNATIVE_FILTER_LABELS: Record<AlternativeFilter, string> = {
+  all: "すべて",
+  with: "代替案あり",
+  without: "代替案なし",
+};
+
+export const JudgementFilterBar: React.FC<JudgementFilterBarProps> = ({
+  filter,
+  onChange,
+  categories,
+  resultCount,
+  totalCount,
+  onExpandAll,
+  onCollapseAll,
+}) => {
+  const update = (patch: Partial<JudgementFilterState>) =>
+    onChange({ ...filter, ...patch });
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+      <Box sx={{ display: "flex", gap: 2, flexWrap: "wrap", alignItems: "center" }}>
+        <TextField
+          size="small"
+          placeholder="要件・判定理由・参照元を検索"
+          value={filter.query}
+          onChange={(e) => update({ query: e.target.value })}
+          sx={{ flex: "1 1 280px" }}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        <ToggleButtonGroup
+          size="small"
+          value={filter.statuses}
+          onChange={(_, statuses: ComplianceStatus[]) => update({ statuses })}
+          aria-label="適合状況で絞り込み"
+        >
+          {COMPLIANCE_STATUSES.map((status) => (
+            <ToggleButton key={status} value={status} sx={{ px: 2 }}>
+              {status}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel id="judgement-category-label">カテゴリ</InputLabel>
+          <Select
+            labelId="judgement-category-label"
+            label="カテゴリ"
+            multiple
+            value={filter.categories}
+            onChange={(e) =>
+              update({
+                categories:
+                  typeof e.target.value === "string"
+                    ? e.target.value.split(",")
+                    : e.target.value,
+              })
+            }
+            renderValue={(selected) => selected.join(", ")}
+          >
+            {categories.map((category) => (
+              <MenuItem key={category} value={category}>
+                {category}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 130 }}>
+          <InputLabel id="judgement-alternative-label">代替案</InputLabel>
+          <Select
+            labelId="judgement-alternative-label"
+            label="代替案"
+            value={filter.alternative}
+            onChange={(e) =>
+              update({ alternative: e.target.value as AlternativeFilter })
+            }
+          >
+            {(Object.keys(ALTERNATIVE_FILTER_LABELS) as AlternativeFilter[]).map(
+              (value) => (
+                <MenuItem key={value} value={value}>
+                  {ALTERNATIVE_FILTER_LABELS[value]}
+                </MenuItem>
+              )
+            )}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 130 }}>
+          <InputLabel id="judgement-review-label">レビュー</InputLabel>
+          <Select
+            labelId="judgement-review-label"
+            label="レビュー"
+            value={filter.review}
+            onChange={(e) => update({ review: e.target.value as ReviewFilter })}
+          >
+            {(Object.keys(REVIEW_FILTER_LABELS) as ReviewFilter[]).map((value) => (
+              <MenuItem key={value} value={value}>
+                {REVIEW_FILTER_LABELS[value]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 130 }}>
+          <InputLabel id="judgement-assignee-label">担当者</InputLabel>
+          <Select
+            labelId="judgement-assignee-label"
+            label="担当者"
+            value={filter.assignee}
+            onChange={(e) =>
+              update({ assignee: e.target.value as AssigneeFilter })
+            }
+          >
+            {(Object.keys(ASSIGNEE_FILTER_LABELS) as AssigneeFilter[]).map(
+              (value) => (
+                <MenuItem key={value} value={value}>
+                  {ASSIGNEE_FILTER_LABELS[value]}
+                </MenuItem>
+              )
+            )}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel id="judgement-review-state-label">対応状況</InputLabel>
+          <Select
+            labelId="judgement-review-state-label"
+            label="対応状況"
+            value={filter.reviewState}
+            onChange={(e) =>
+              update({ reviewState: e.target.value as ReviewStateFilter })
+            }
+          >
+            <MenuItem value="all">すべて</MenuItem>
+            {REVIEW_STATES.map((state) => (
+              <MenuItem key={state} value={state}>
+                {REVIEW_STATE_LABELS[state]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel id="judgement-sort-label">並び順</InputLabel>
+          <Select
+            labelId="judgement-sort-label"
+            label="並び順"
+            value={filter.sort}
+            onChange={(e) => update({ sort: e.target.value as JudgementSort })}
+          >
+            {(Object.keys(JUDGEMENT_SORT_LABELS) as JudgementSort[]).map((value) => (
+              <MenuItem key={value} value={value}>
+                {JUDGEMENT_SORT_LABELS[value]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, mt: 1.5 }}>
+        <Typography variant="body2" color="text.secondary">
+          {resultCount} / {totalCount}件を表示
+        </Typography>
+        {isFilterActive(filter) && (
+          <Button
+            size="small"
+            startIcon={<FilterAltOffIcon />}
+            onClick={() => onChange({ ...DEFAULT_JUDGEMENT_FILTER, sort: filter.sort })}
+          >
+            条件をクリア
+          </Button>
+        )}
+        <Box sx={{ flex: 1 }} />
+        <Button size="small" startIcon={<UnfoldMoreIcon />} onClick={onExpandAll}>
+          すべて展開
+        </Button>
+        <Button size="small" startIcon={<UnfoldLessIcon />} onClick={onCollapseAll}>
+          すべて折りたたむ
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  Paper,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import {
+  RateReview as RateReviewIcon,
+  Restore as RestoreIcon,
+  Save as SaveIcon,
+} from "@mui/icons-material";
+import type { JudgementItem, JudgementReview } from "../types/dify";
+import { COMPLIANCE_STATUSES, type ComplianceStatus } from "../utils/compliance";
+import { applyReview } from "../utils/review";
+import { formatDate } from "../utils/format";
+
+interface JudgementReviewEditorProps {
+  item: JudgementItem;
+  onChange: (review: JudgementReview | null) => void;
+}
+
+export const JudgementReviewEditor: React.FC<JudgementReviewEditorProps> = ({
+  item,
+  onChange,
+}) => {
+  const effective = applyReview(item).assessment;
+  const [status, setStatus] = useState<ComplianceStatus>(
+    effective.compliance_status
+  );
+  const [reasoning, setReasoning] = useState(effective.reasoning);
+  const [alternative, setAlternative] = useState(
+    effective.alternative_solution ?? ""
+  );
+  const [confirmed, setConfirmed] = useState(item.review?.confirmed ?? false);
+
+  const handleSave = () => {
+    // AIの判定と同じ値は上書きとして保存しない
+    onChange({
+      compliance_status:
+        status !== item.assessment.compliance_status ? status : undefined,
+      reasoning:
+        reasoning !== item.assessment.reasoning ? reasoning : undefined,
+      alternative_solution:
+        alternative !== (item.assessment.alternative_solution ?? "")
+          ? alternative
+          : undefined,
+      confirmed,
+      reviewed_at: Math.floor(Date.now() / 1000),
+    });
+  };
+
+  const handleReset = () => {
+    setStatus(item.assessment.compliance_status);
+    setReasoning(item.assessment.reasoning);
+    setAlternative(item.assessment.alternative_solution ?? "");
+    setConfirmed(false);
+    onChange(null);
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Typography
+        variant="subtitle2"
+        gutterBottom
+        sx={{ display: "flex", alignItems: "center", gap: 1 }}
+      >
+        <RateReviewIcon fontSize="small" color="action" />
+        担当者レビュー
+        {item.review && (
+          <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+            最終更新: {formatDate(item.review.reviewed_at)}
+          </Typography>
+        )}
+      </Typography>
+      <Stack spacing={2}>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={status}
+            onChange={(_, value: ComplianceStatus | null) =>
+              value && setStatus(value)
+            }
+          >
+            {COMPLIANCE_STATUSES.map((s) => (
+              <ToggleButton key={s} value={s} sx={{ px: 2 }}>
+                {s}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <Typography variant="body2" color="text.secondary">
+            AIの判定: {item.assessment.compliance_status}
+          </Typography>
+        </Box>
+        <TextField
+          label="判定理由"
+          size="small"
+          multiline
+          minRows={2}
+          value={reasoning}
+          onChange={(e) => setReasoning(e.target.value)}
+        />
+        <TextField
+          label="代替案"
+          size="small"
+          multiline
+          minRows={1}
+          value={alternative}
+          onChange={(e) => setAlternative(e.target.value)}
+        />
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={confirmed}
+                onChange={(e) => setConfirmed(e.target.checked)}
+              />
+            }
+            label="確認済み"
+          />
+          <Box sx={{ flex: 1 }} />
+          <Button
+            size="small"
+            startIcon={<RestoreIcon />}
+            onClick={handleReset}
+            disabled={!item.review}
+          >
+            AIの判定に戻す
+          </Button>
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<SaveIcon />}
+            onClick={handleSave}
+          >
+            保存
+          </Button>
+        </Box>
+      </Stack>
+    </Paper>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState } from "react";
+import { Chip, Divider, Menu, MenuItem, Tooltip } from "@mui/material";
+import type { JudgementItem, RequirementPriority } from "../types/dify";
+import {
+  PRIORITY_LABELS,
+  PRIORITY_WEIGHTS,
+  REQUIREMENT_PRIORITIES,
+  detectPriority,
+  getPriority,
+} from "../utils/fitScore";
+
+interface PriorityChipProps {
+  item: JudgementItem;
+  // 未指定の場合は表示のみ
+  onChange?: (priority: RequirementPriority | null) => void;
+}
+
+const PRIORITY_COLORS: Record<RequirementPriority, "error" | "primary" | "default"> = {
+  mandatory: "error",
+  standard: "primary",
+  optional: "default",
+};
+
+export const PriorityChip: React.FC<PriorityChipProps> = ({ item, onChange }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const priority = getPriority(item);
+  const manual = item.priority !== undefined;
+
+  const select = (next: RequirementPriority | null) => {
+    setAnchorEl(null);
+    onChange?.(next);
+  };
+
+  return (
+    <>
+      <Tooltip
+        title={`${manual ? "担当者が設定" : "要件の文言から推定"}（重み ${PRIORITY_WEIGHTS[priority]}）`}
+      >
+        <Chip
+          label={PRIORITY_LABELS[priority]}
+          size="small"
+          color={PRIORITY_COLORS[priority]}
+          variant={manual ? "filled" : "outlined"}
+          // アコーディオンの開閉と区別する
+          onClick={
+            onChange
+              ? (event) => {
+                  event.stopPropagation();
+                  setAnchorEl(event.currentTarget);
+                }
+              : undefined
+          }
+          onFocus={(event) => event.stopPropagation()}
+        />
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={!!anchorEl}
+        onClose={() => setAnchorEl(null)}
+        onClick={(event) => event.stopPropagation()}
+      >
+        {REQUIREMENT_PRIORITIES.map((candidate) => (
+          <MenuItem
+            key={candidate}
+            selected={manual && candidate === priority}
+            onClick={() => select(candidate)}
+          >
+            {PRIORITY_LABELS[candidate]}（重み {PRIORITY_WEIGHTS[candidate]}）
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem disabled={!manual} onClick={() => select(null)}>
+          自動判定に戻す（{PRIORITY_LABELS[detectPriority(item.original_item)]}）
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Stack,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+import {
+  Add as AddIcon,
+  ContentCopy as ContentCopyIcon,
+  Delete as DeleteIcon,
+} from "@mui/icons-material";
+import type { WorkflowProfile } from "../types/profile";
+import { createDefaultProfile } from "../storage/profiles";
+
+interface ProfileSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  profiles: WorkflowProfile[];
+  activeProfileId: string;
+  onSave: (profiles: WorkflowProfile[], activeProfileId: string) => void;
+}
+
+// Dify のワークフロー入力変数名として使える形式
+const INPUT_VARIABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const validateProfile = (
+  profile: WorkflowProfile
+): Partial<Record<keyof WorkflowProfile, string>> => {
+  const errors: Partial<Record<keyof WorkflowProfile, string>> = {};
+  if (!profile.name.trim()) errors.name = "名前を入力してください";
+  if (!INPUT_VARIABLE_PATTERN.test(profile.inputVariableName)) {
+    errors.inputVariableName = "半角英数字とアンダースコアで入力してください";
+  }
+  if (!profile.userId.trim()) errors.userId = "ユーザーIDを入力してください";
+  if (profile.baseUrl && !/^(https?:\/\/|\/)/.test(profile.baseUrl)) {
+    errors.baseUrl = "http(s):// または / で始まるURLを入力してください";
+  }
+  return errors;
+};
+
+export const ProfileSettingsDialog: React.FC<ProfileSettingsDialogProps> = ({
+  open,
+  onClose,
+  profiles,
+  activeProfileId,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<WorkflowProfile[]>(profiles);
+  const [selectedId, setSelectedId] = useState(activeProfileId);
+
+  // 開くたびに保存済みの内容から編集を始める
+  const handleEnter = () => {
+    setDraft(profiles);
+    setSelectedId(activeProfileId);
+  };
+
+  const selected = draft.find((profile) => profile.id === selectedId) ?? draft[0];
+  const errors = selected ? validateProfile(selected) : {};
+  const hasErrors = draft.some(
+    (profile) => Object.keys(validateProfile(profile)).length > 0
+  );
+
+  const updateSelected = (patch: Partial<WorkflowProfile>) => {
+    setDraft((prev) =>
+      prev.map((profile) =>
+        profile.id === selected.id ? { ...profile, ...patch } : profile
+      )
+    );
+  };
+
+  const addProfile = (base: WorkflowProfile) => {
+    const profile = { ...base, id: `profile_${Date.now()}` };
+    setDraft((prev) => [...prev, profile]);
+    setSelectedId(profile.id);
+  };
+
+  const deleteSelected = () => {
+    const remaining = draft.filter((profile) => profile.id !== selected.id);
+    setDraft(remaining);
+    setSelectedId(remaining[0].id);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      slotProps={{ transition: { onEnter: handleEnter } }}
+    >
+      <DialogTitle>ワークフロープロファイルの設定</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: "flex", gap: 2 }}>
+          <Box sx={{ width: 220, flexShrink: 0 }}>
+            <List dense disablePadding>
+              {draft.map((profile) => (
+                <ListItemButton
+                  key={profile.id}
+                  selected={profile.id === selected?.id}
+                  onClick={() => setSelectedId(profile.id)}
+                >
+                  <ListItemText
+                    primary={profile.name || "（名前なし）"}
+                    secondary={profile.baseUrl || "ローカルのプロキシ"}
+                    slotProps={{ secondary: { noWrap: true } }}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+            <Divider sx={{ my: 1 }} />
+            <Box sx={{ display: "flex", gap: 1 }}>
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() =>
+                  addProfile({ ...createDefaultProfile(), name: "新しいプロファイル" })
+                }
+              >
+                追加
+              </Button>
+              <Tooltip title="複製">
+                <IconButton
+                  size="small"
+                  onClick={() =>
+                    addProfile({ ...selected, name: `${selected.name}のコピー` })
+                  }
+                >
+                  <ContentCopyIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="削除">
+                <span>
+                  <IconButton
+                    size="small"
+                    onClick={deleteSelected}
+                    disabled={draft.length <= 1}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Box>
+          </Box>
+
+          {selected && (
+            <Stack spacing={2} sx={{ flex: 1 }}>
+              <TextField
+                label="プロファイル名"
+                size="small"
+                value={selected.name}
+                onChange={(e) => updateSelected({ name: e.target.value })}
+                error={!!errors.name}
+                helperText={errors.name ?? "製品ラインやプロンプトの違いが分かる名前"}
+              />
+              <TextField
+                label="ベースURL"
+                size="small"
+                value={selected.baseUrl}
+                onChange={(e) => updateSelected({ baseUrl: e.target.value.trim() })}
+                placeholder="/api"
+                error={!!errors.baseUrl}
+                helperText={
+                  errors.baseUrl ??
+                  "空欄の場合はローカルのプロキシを使います。Difyを直接呼ぶ場合は https://api.dify.ai/v1 など"
+                }
+              />
+              <TextField
+                label="アップロード用APIキー"
+                size="small"
+                type="password"
+                autoComplete="off"
+                value={selected.uploadApiKey}
+                onChange={(e) => updateSelected({ uploadApiKey: e.target.value.trim() })}
+                helperText="空欄の場合はプロキシに設定されたキーを使います"
+              />
+              <TextField
+                label="ワークフロー用APIキー"
+                size="small"
+                type="password"
+                autoComplete="off"
+                value={selected.workflowApiKey}
+                onChange={(e) => updateSelected({ workflowApiKey: e.target.value.trim() })}
+                helperText="空欄の場合はプロキシに設定されたキーを使います"
+              />
+              <TextField
+                label="入力変数名"
+                size="small"
+                value={selected.inputVariableName}
+                onChange={(e) =>
+                  updateSelected({ inputVariableName: e.target.value.trim() })
+                }
+                error={!!errors.inputVariableName}
+                helperText={
+                  errors.inputVariableName ??
+                  "アップロードしたドキュメントを受け取るワークフローの入力変数"
+                }
+              />
+              <TextField
+                label="ユーザーID"
+                size="small"
+                value={selected.userId}
+                onChange={(e) => updateSelected({ userId: e.target.value })}
+                error={!!errors.userId}
+                helperText={errors.userId ?? "Difyの実行履歴とプロキシのログに記録されます"}
+              />
+              {(selected.uploadApiKey || selected.workflowApiKey) && (
+                <Alert severity="warning">
+                  APIキーはこのブラウザ内に保存されます。プロキシ経由の場合、サーバーで DIFY_ALLOW_CLIENT_KEYS=1 を設定していないと拒否されます。共有の端末では空欄にしてプロキシのキーを使ってください。
+                </Alert>
+              )}
+            </Stack>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>キャンセル</Button>
+        <Button
+          variant="contained"
+          onClick={() => onSave(draft, selected.id)}
+          disabled={hasErrors}
+        >
+          保存
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
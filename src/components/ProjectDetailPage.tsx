@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Container,
+  Paper,
+  Typography,
+} from "@mui/material";
+import {
+  ArrowBack as ArrowBackIcon,
+  Edit as EditIcon,
+} from "@mui/icons-material";
+import { DifyFileUploadDemo } from "./DifyFileUploadDemo";
+import { DeadlineChip } from "./DeadlineChip";
+import { ProjectDialog } from "./ProjectDialog";
+import { PROJECTS_PATH } from "../hooks/useHashRoute";
+import { loadProjects, saveProject } from "../storage/historyDb";
+import type { Project } from "../types/project";
+import type { ProjectInput } from "../utils/project";
+
+interface ProjectDetailPageProps {
+  projectId: string;
+}
+
+export const ProjectDetailPage: React.FC<ProjectDetailPageProps> = ({
+  projectId,
+}) => {
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editOpen, setEditOpen] = useState(false);
+
+  useEffect(() => {
+    loadProjects()
+      .then(setProjects)
+      .catch((error) => {
+        console.error("Failed to load projects:", error);
+        setError("プロジェクトを読み込めませんでした");
+      });
+  }, []);
+
+  const project = projects?.find((candidate) => candidate.id === projectId);
+
+  const handleSave = async (input: ProjectInput) => {
+    if (!project) return;
+    const updated = { ...project, ...input, updated_at: Math.floor(Date.now() / 1000) };
+    try {
+      await saveProject(updated);
+      setProjects((prev) =>
+        (prev ?? []).map((candidate) =>
+          candidate.id === updated.id ? updated : candidate
+        )
+      );
+      setEditOpen(false);
+    } catch (error) {
+      console.error("Failed to save project:", error);
+      setError("プロジェクトを保存できませんでした");
+    }
+  };
+
+  const backButton = (
+    <Button href={PROJECTS_PATH} startIcon={<ArrowBackIcon />}>
+      プロジェクト一覧
+    </Button>
+  );
+
+  if (error || (projects && !project)) {
+    return (
+      <Container maxWidth="lg" sx={{ py: 4 }}>
+        {backButton}
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {error ?? "指定されたプロジェクトが見つかりません"}
+        </Alert>
+      </Container>
+    );
+  }
+  if (!projects || !project) return null;
+
+  return (
+    <>
+      <Container maxWidth="lg" sx={{ pt: 4 }}>
+        {backButton}
+        <Paper elevation={3} sx={{ p: 3, mt: 1, maxWidth: 800, mx: "auto" }}>
+          <Box sx={{ display: "flex", alignItems: "flex-start", gap: 2 }}>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <Typography variant="h5">{project.name}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                発注元: {project.issuer || "-"}
+              </Typography>
+            </Box>
+            <DeadlineChip deadline={project.deadline} />
+            <Button
+              size="small"
+              startIcon={<EditIcon />}
+              onClick={() => setEditOpen(true)}
+            >
+              編集
+            </Button>
+          </Box>
+          {project.notes && (
+            <Typography
+              variant="body2"
+              sx={{ mt: 2, whiteSpace: "pre-wrap" }}
+            >
+              {project.notes}
+            </Typography>
+          )}
+        </Paper>
+      </Container>
+
+      <DifyFileUploadDemo key={project.id} project={project} projects={projects} />
+
+      <ProjectDialog
+        open={editOpen}
+        project={project}
+        onClose={() => setEditOpen(false)}
+        onSave={handleSave}
+      />
+    </>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+} from "@mui/material";
+import type { Project } from "../types/project";
+import type { ProjectInput } from "../utils/project";
+
+interface ProjectDialogProps {
+  open: boolean;
+  // 編集する場合は対象のプロジェクト、新規作成の場合はnull
+  project: Project | null;
+  onClose: () => void;
+  onSave: (input: ProjectInput) => void;
+}
+
+const EMPTY_INPUT: ProjectInput = { name: "", issuer: "", deadline: "", notes: "" };
+
+export const ProjectDialog: React.FC<ProjectDialogProps> = ({
+  open,
+  project,
+  onClose,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<ProjectInput>(EMPTY_INPUT);
+
+  // 開くたびに対象のプロジェクトの内容から編集を始める
+  const handleEnter = () => {
+    setDraft(
+      project
+        ? {
+            name: project.name,
+            issuer: project.issuer,
+            deadline: project.deadline,
+            notes: project.notes,
+          }
+        : EMPTY_INPUT
+    );
+  };
+
+  const update = (patch: Partial<ProjectInput>) =>
+    setDraft((prev) => ({ ...prev, ...patch }));
+
+  const nameError = !draft.name.trim();
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      slotProps={{ transition: { onEnter: handleEnter } }}
+    >
+      <DialogTitle>{project ? "プロジェクトの編集" : "新しいプロジェクト"}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <TextField
+            label="案件名"
+            size="small"
+            required
+            autoFocus
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            error={nameError}
+            helperText={nameError ? "案件名を入力してください" : " "}
+          />
+          <TextField
+            label="発注元"
+            size="small"
+            value={draft.issuer}
+            onChange={(e) => update({ issuer: e.target.value })}
+          />
+          <TextField
+            label="提出期限"
+            size="small"
+            type="date"
+            value={draft.deadline}
+            onChange={(e) => update({ deadline: e.target.value })}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            label="メモ"
+            size="small"
+            multiline
+            minRows={3}
+            value={draft.notes}
+            onChange={(e) => update({ notes: e.target.value })}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>キャンセル</Button>
+        <Button
+          variant="contained"
+          onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+          disabled={nameError}
+        >
+          保存
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Container,
+  IconButton,
+  Link,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+} from "@mui/icons-material";
+import { DeadlineChip } from "./DeadlineChip";
+import { ProjectDialog } from "./ProjectDialog";
+import { navigate, projectPath } from "../hooks/useHashRoute";
+import {
+  deleteProject,
+  loadProjectSummaries,
+  loadProjects,
+  saveProject,
+} from "../storage/historyDb";
+import type { Project, ProjectSummary } from "../types/project";
+import { formatDate } from "../utils/format";
+import { createProject, type ProjectInput } from "../utils/project";
+
+export const ProjectListPage: React.FC = () => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [summaries, setSummaries] = useState<Record<string, ProjectSummary>>({});
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Project | null>(null);
+
+  const refresh = useCallback(() => {
+    Promise.all([loadProjects(), loadProjectSummaries()])
+      .then(([nextProjects, nextSummaries]) => {
+        setProjects(nextProjects);
+        setSummaries(nextSummaries);
+      })
+      .catch((error) => {
+        console.error("Failed to load projects:", error);
+        setError("プロジェクトを読み込めませんでした");
+      })
+      .finally(() => setLoaded(true));
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const openDialog = (project: Project | null) => {
+    setEditing(project);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (input: ProjectInput) => {
+    const project = editing
+      ? { ...editing, ...input, updated_at: Math.floor(Date.now() / 1000) }
+      : createProject(input);
+    try {
+      await saveProject(project);
+      setDialogOpen(false);
+      if (editing) {
+        refresh();
+      } else {
+        navigate(projectPath(project.id));
+      }
+    } catch (error) {
+      console.error("Failed to save project:", error);
+      setError("プロジェクトを保存できませんでした");
+    }
+  };
+
+  const handleDelete = async (project: Project) => {
+    if (
+      !window.confirm(
+        `「${project.name}」を削除しますか？含まれるファイルと実行結果もすべて削除されます。`
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteProject(project.id);
+      refresh();
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+      setError("プロジェクトを削除できませんでした");
+    }
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper elevation={3} sx={{ p: 3 }}>
+        <Box sx={{ display: "flex", alignItems: "center", mb: 2 }}>
+          <Typography variant="h5">RFPプロジェクト</Typography>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => openDialog(null)}
+            sx={{ ml: "auto" }}
+          >
+            新しいプロジェクト
+          </Button>
+        </Box>
+
+        {loaded && projects.length === 0 ? (
+          <Typography color="text.secondary" sx={{ py: 4, textAlign: "center" }}>
+            案件ごとにプロジェクトを作成すると、RFP本体・追加資料・質疑回答と判定結果をまとめて管理できます。
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>案件名</TableCell>
+                  <TableCell>発注元</TableCell>
+                  <TableCell>提出期限</TableCell>
+                  <TableCell align="right">ファイル</TableCell>
+                  <TableCell align="right">実行</TableCell>
+                  <TableCell align="right">レビュー済み</TableCell>
+                  <TableCell>最終更新</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {projects.map((project) => {
+                  const summary = summaries[project.id];
+                  const lastActivity = Math.max(
+                    project.updated_at,
+                    summary?.lastActivityAt ?? 0
+                  );
+                  return (
+                    <TableRow key={project.id} hover>
+                      <TableCell>
+                        <Link href={projectPath(project.id)} fontWeight="medium">
+                          {project.name}
+                        </Link>
+                        {project.notes && (
+                          <Typography
+                            variant="caption"
+                            color="text.secondary"
+                            noWrap
+                            sx={{ display: "block", maxWidth: 280 }}
+                          >
+                            {project.notes}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{project.issuer || "-"}</TableCell>
+                      <TableCell>
+                        <DeadlineChip deadline={project.deadline} />
+                      </TableCell>
+                      <TableCell align="right">{summary?.documentCount ?? 0}</TableCell>
+                      <TableCell align="right">{summary?.runCount ?? 0}</TableCell>
+                      <TableCell align="right">{summary?.reviewedCount ?? 0}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2" color="text.secondary">
+                          {formatDate(lastActivity)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: "nowrap" }}>
+                        <Tooltip title="編集">
+                          <IconButton size="small" onClick={() => openDialog(project)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="削除">
+                          <IconButton size="small" onClick={() => handleDelete(project)}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+
+      <ProjectDialog
+        open={dialogOpen}
+        project={editing}
+        onClose={() => setDialogOpen(false)}
+        onSave={handleSave}
+      />
+    </Container>
+  );
+};
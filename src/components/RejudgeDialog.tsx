@@ -0,0 +1,120 @@
+import React, { useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import type { JudgementItem } from "../types/dify";
+
+interface RejudgeDialogProps {
+  // 再判定する項目。閉じている場合はnull
+  item: JudgementItem | null;
+  onClose: () => void;
+  // 補足情報を添えて再判定する。失敗した場合は例外を投げる
+  onSubmit: (context: string, signal: AbortSignal) => Promise<void>;
+}
+
+export const RejudgeDialog: React.FC<RejudgeDialogProps> = ({
+  item,
+  onClose,
+  onSubmit,
+}) => {
+  const [context, setContext] = useState("");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const handleEnter = () => {
+    setContext("");
+    setError(null);
+  };
+
+  // 実行中に閉じた場合は再判定を中止する
+  const handleClose = () => {
+    controllerRef.current?.abort();
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setError(null);
+    try {
+      await onSubmit(context.trim(), controller.signal);
+      onClose();
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      controllerRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={item !== null}
+      onClose={handleClose}
+      maxWidth="md"
+      fullWidth
+      slotProps={{ transition: { onEnter: handleEnter } }}
+    >
+      <DialogTitle>要件の再判定</DialogTitle>
+      <DialogContent dividers>
+        {item && (
+          <Stack spacing={2}>
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                要件
+              </Typography>
+              <Paper variant="outlined" sx={{ p: 2 }}>
+                <Typography variant="body2">{item.original_item}</Typography>
+              </Paper>
+            </Box>
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                現在の判定
+              </Typography>
+              <Box sx={{ display: "flex", gap: 1, alignItems: "flex-start" }}>
+                <Chip label={item.assessment.compliance_status} size="small" />
+                <Typography variant="body2" color="text.secondary">
+                  {item.assessment.reasoning}
+                </Typography>
+              </Box>
+            </Box>
+            <TextField
+              label="補足情報（任意）"
+              placeholder="判定の前提となる事情や、製品仕様書の該当箇所の抜粋などを入力してください"
+              multiline
+              minRows={5}
+              value={context}
+              onChange={(e) => setContext(e.target.value)}
+              disabled={running}
+              helperText="この要件だけをワークフローで判定し直し、結果で置き換えます。これまでの判定は履歴に残り、担当者レビューは破棄されて対応状況は確認中に戻ります。"
+            />
+            {running && <LinearProgress />}
+            {error && <Alert severity="error">再判定に失敗しました: {error}</Alert>}
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>{running ? "中止" : "キャンセル"}</Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={running}>
+          再判定
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,105 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Switch,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+import { Delete as DeleteIcon } from "@mui/icons-material";
+import type { WorkflowFixture } from "../types/fixture";
+import {
+  REPLAY_LATENCY_OPTIONS,
+  type ReplaySettings,
+} from "../storage/replaySettings";
+
+interface ReplaySettingsBarProps {
+  settings: ReplaySettings;
+  fixtures: WorkflowFixture[];
+  onChange: (settings: ReplaySettings) => void;
+  onDeleteFixture: (id: string) => void;
+  disabled?: boolean;
+}
+
+export const ReplaySettingsBar: React.FC<ReplaySettingsBarProps> = ({
+  settings,
+  fixtures,
+  onChange,
+  onDeleteFixture,
+  disabled,
+}) => {
+  const selected = fixtures.find((fixture) => fixture.id === settings.fixtureId);
+
+  return (
+    <Box>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={settings.enabled}
+              onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+              disabled={disabled}
+            />
+          }
+          label="オフラインデモ"
+        />
+        {settings.enabled && (
+          <>
+            <TextField
+              select
+              size="small"
+              label="再生する記録"
+              value={selected?.id ?? ""}
+              onChange={(e) => onChange({ ...settings, fixtureId: e.target.value })}
+              disabled={disabled}
+              sx={{ flex: 1 }}
+            >
+              {fixtures.map((fixture) => (
+                <MenuItem key={fixture.id} value={fixture.id}>
+                  {fixture.name}
+                  {fixture.source_name && `（${fixture.source_name}）`}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="待ち時間"
+              value={settings.latencyMs}
+              onChange={(e) =>
+                onChange({ ...settings, latencyMs: Number(e.target.value) })
+              }
+              disabled={disabled}
+              sx={{ minWidth: 140 }}
+            >
+              {REPLAY_LATENCY_OPTIONS.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Tooltip title="この記録を削除">
+              <span>
+                <IconButton
+                  size="small"
+                  onClick={() => selected && onDeleteFixture(selected.id)}
+                  disabled={disabled || !selected || selected.builtin}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </>
+        )}
+      </Box>
+      {settings.enabled && (
+        <Alert severity="info" sx={{ mt: 1 }}>
+          Dify APIには接続せず、記録済みの応答を再生します。アップロードしたファイルの内容に関わらず、選択した記録の判定結果が表示されます。
+        </Alert>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import {
+  TableChart as TableChartIcon,
+  PlaylistAdd as PlaylistAddIcon,
+} from "@mui/icons-material";
+import type { UploadResult } from "../types/history";
+import {
+  REQUIREMENT_SHEET_FORMATS,
+  extractRequirements,
+  getColumnCount,
+  parseRequirementWorkbook,
+  toColumnLetter,
+  type ParsedWorkbook,
+} from "../utils/requirementSheet";
+
+interface RequirementSheetImportProps {
+  userId: string;
+  onImport: (upload: UploadResult) => void;
+  onError?: (error: string) => void;
+}
+
+const PREVIEW_ROWS = 10;
+
+export const RequirementSheetImport: React.FC<RequirementSheetImportProps> = ({
+  userId,
+  onImport,
+  onError,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [workbook, setWorkbook] = useState<ParsedWorkbook | null>(null);
+  const [sheetName, setSheetName] = useState("");
+  const [columnIndex, setColumnIndex] = useState(0);
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+
+  const rows = useMemo(
+    () => (workbook && sheetName ? workbook.sheets[sheetName] ?? [] : []),
+    [workbook, sheetName]
+  );
+  const columnCount = getColumnCount(rows);
+  const requirements = useMemo(
+    () => extractRequirements(rows, columnIndex, hasHeaderRow),
+    [rows, columnIndex, hasHeaderRow]
+  );
+
+  const getColumnLabel = (index: number) => {
+    const header = hasHeaderRow ? rows[0]?.[index] : null;
+    return header
+      ? `${toColumnLetter(index)}: ${String(header)}`
+      : toColumnLetter(index);
+  };
+
+  // 要件が最も多く入っていそうな列(平均文字数が最大の列)を初期選択にする
+  const guessRequirementColumn = (sheetRows: ParsedWorkbook["sheets"][string]) => {
+    let best = 0;
+    let bestLength = -1;
+    for (let c = 0; c < getColumnCount(sheetRows); c++) {
+      const cells = sheetRows
+        .map((row) => String(row[c] ?? "").trim())
+        .filter(Boolean);
+      const average =
+        cells.length > 0
+          ? cells.reduce((sum, cell) => sum + cell.length, 0) / cells.length
+          : 0;
+      if (average > bestLength) {
+        best = c;
+        bestLength = average;
+      }
+    }
+    return best;
+  };
+
+  const selectSheet = (parsed: ParsedWorkbook, name: string) => {
+    setSheetName(name);
+    setColumnIndex(guessRequirementColumn(parsed.sheets[name] ?? []));
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+
+    const extension = selected.name.split(".").pop()?.toLowerCase();
+    if (!extension || !REQUIREMENT_SHEET_FORMATS.includes(extension)) {
+      onError?.(
+        `サポートされていないファイル形式です。対応形式: ${REQUIREMENT_SHEET_FORMATS.join(", ")}`
+      );
+      return;
+    }
+
+    try {
+      const parsed = await parseRequirementWorkbook(selected);
+      if (parsed.sheetNames.length === 0) {
+        throw new Error("シートが見つかりません");
+      }
+      setFile(selected);
+      setWorkbook(parsed);
+      selectSheet(parsed, parsed.sheetNames[0]);
+    } catch (error) {
+      console.error("Failed to parse requirement sheet:", error);
+      onError?.(
+        `要件一覧の読み込みに失敗しました: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  };
+
+  const handleImport = () => {
+    if (!file || requirements.length === 0) return;
+    const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+    onImport({
+      id: `sheet_${Date.now()}`,
+      name:
+        workbook && workbook.sheetNames.length > 1
+          ? `${file.name} [${sheetName}]`
+          : file.name,
+      size: file.size,
+      extension,
+      mime_type: file.type || (extension === "csv" ? "text/csv" : "application/vnd.ms-excel"),
+      created_by: userId,
+      created_at: Math.floor(Date.now() / 1000),
+      file,
+      requirements,
+    });
+    setFile(null);
+    setWorkbook(null);
+  };
+
+  return (
+    <Box>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={REQUIREMENT_SHEET_FORMATS.map((format) => `.${format}`).join(",")}
+        onChange={handleFileSelect}
+        style={{ display: "none" }}
+        aria-label="要件一覧ファイルを選択"
+      />
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, flexWrap: "wrap" }}>
+        <Button
+          variant="outlined"
+          startIcon={<TableChartIcon />}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Excel / CSV を選択
+        </Button>
+        {file && (
+          <Typography variant="body2" color="text.secondary">
+            {file.name}
+          </Typography>
+        )}
+      </Box>
+
+      {workbook && (
+        <Box sx={{ mt: 2 }}>
+          <Box sx={{ display: "flex", gap: 2, alignItems: "center", flexWrap: "wrap" }}>
+            <FormControl size="small" sx={{ minWidth: 160 }}>
+              <InputLabel id="requirement-sheet-label">シート</InputLabel>
+              <Select
+                labelId="requirement-sheet-label"
+                label="シート"
+                value={sheetName}
+                onChange={(e) => selectSheet(workbook, e.target.value)}
+              >
+                {workbook.sheetNames.map((name) => (
+                  <MenuItem key={name} value={name}>
+                    {name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel id="requirement-column-label">要件の列</InputLabel>
+              <Select
+                labelId="requirement-column-label"
+                label="要件の列"
+                value={columnCount > 0 ? columnIndex : ""}
+                onChange={(e) => setColumnIndex(Number(e.target.value))}
+              >
+                {Array.from({ length: columnCount }, (_, index) => (
+                  <MenuItem key={index} value={index}>
+                    {getColumnLabel(index)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={hasHeaderRow}
+                  onChange={(e) => setHasHeaderRow(e.target.checked)}
+                />
+              }
+              label="1行目は見出し"
+            />
+          </Box>
+
+          <Typography variant="subtitle2" sx={{ mt: 2 }}>
+            プレビュー（{requirements.length}件中 先頭
+            {Math.min(PREVIEW_ROWS, requirements.length)}件）
+          </Typography>
+          <TableContainer sx={{ maxHeight: 320 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ width: 80 }}>行番号</TableCell>
+                  <TableCell>要件</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {requirements.slice(0, PREVIEW_ROWS).map((row) => (
+                  <TableRow key={row.row_number}>
+                    <TableCell>{row.row_number}</TableCell>
+                    <TableCell>{row.requirement}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Box sx={{ display: "flex", justifyContent: "flex-end", gap: 1, mt: 2 }}>
+            <Button
+              onClick={() => {
+                setFile(null);
+                setWorkbook(null);
+              }}
+            >
+              キャンセル
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<PlaylistAddIcon />}
+              onClick={handleImport}
+              disabled={requirements.length === 0}
+            >
+              {requirements.length}件の要件を取り込む
+            </Button>
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,94 @@
+import React from "react";
+import { Box, Button, Chip, Paper, Tooltip, Typography } from "@mui/material";
+import { Person as PersonIcon } from "@mui/icons-material";
+import type { JudgementItem, ReviewState } from "../types/dify";
+import {
+  countByReviewState,
+  REVIEW_STATE_COLORS,
+  REVIEW_STATE_LABELS,
+  REVIEW_STATES,
+} from "../utils/review";
+
+interface ReviewProgressBarProps {
+  items: JudgementItem[];
+  // 自分の担当の件数。チーム設定で自分を選んでいない場合はnull
+  myItemCount: number | null;
+  onSelectState: (state: ReviewState) => void;
+  onShowMine: () => void;
+}
+
+// 棒グラフの並び。完了したものから順に左に積む
+const BAR_ORDER: ReviewState[] = ["done", "escalated", "in_progress", "todo"];
+
+const BAR_COLORS: Record<ReviewState, string> = {
+  todo: "grey.300",
+  in_progress: "info.main",
+  done: "success.main",
+  escalated: "error.main",
+};
+
+export const ReviewProgressBar: React.FC<ReviewProgressBarProps> = ({
+  items,
+  myItemCount,
+  onSelectState,
+  onShowMine,
+}) => {
+  const counts = countByReviewState(items);
+  const total = items.length;
+  const donePercent = total === 0 ? 0 : Math.round((counts.done / total) * 100);
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 1, flexWrap: "wrap" }}>
+        <Typography variant="subtitle2">確認の進捗</Typography>
+        <Typography variant="body2" color="text.secondary">
+          確認済み {counts.done} / {total}件（{donePercent}%）
+        </Typography>
+        <Box sx={{ flex: 1 }} />
+        {myItemCount !== null && (
+          <Button size="small" startIcon={<PersonIcon />} onClick={onShowMine}>
+            自分の担当 {myItemCount}件
+          </Button>
+        )}
+      </Box>
+      <Box
+        sx={{
+          display: "flex",
+          height: 10,
+          borderRadius: 5,
+          overflow: "hidden",
+          backgroundColor: "grey.200",
+        }}
+      >
+        {BAR_ORDER.map(
+          (state) =>
+            counts[state] > 0 && (
+              <Tooltip
+                key={state}
+                title={`${REVIEW_STATE_LABELS[state]}: ${counts[state]}件`}
+              >
+                <Box
+                  sx={{
+                    width: `${(counts[state] / total) * 100}%`,
+                    backgroundColor: BAR_COLORS[state],
+                  }}
+                />
+              </Tooltip>
+            )
+        )}
+      </Box>
+      <Box sx={{ display: "flex", gap: 1, mt: 1, flexWrap: "wrap" }}>
+        {REVIEW_STATES.map((state) => (
+          <Chip
+            key={state}
+            label={`${REVIEW_STATE_LABELS[state]} ${counts[state]}`}
+            size="small"
+            color={REVIEW_STATE_COLORS[state]}
+            variant={counts[state] > 0 ? "filled" : "outlined"}
+            onClick={() => onSelectState(state)}
+          />
+        ))}
+      </Box>
+    </Paper>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import {
+  Delete as DeleteIcon,
+  Forum as ForumIcon,
+  Send as SendIcon,
+} from "@mui/icons-material";
+import type { JudgementItem, ReviewState, ReviewThread } from "../types/dify";
+import type { TeamSettings } from "../types/team";
+import {
+  getReviewState,
+  REVIEW_STATE_LABELS,
+  REVIEW_STATES,
+} from "../utils/review";
+import { formatDate } from "../utils/format";
+
+interface ReviewThreadPanelProps {
+  item: JudgementItem;
+  team: TeamSettings;
+  onChange: (thread: ReviewThread) => void;
+}
+
+export const ReviewThreadPanel: React.FC<ReviewThreadPanelProps> = ({
+  item,
+  team,
+  onChange,
+}) => {
+  const [draft, setDraft] = useState("");
+  const thread: ReviewThread = item.thread ?? { comments: [] };
+  const currentMember = team.members.find(
+    (member) => member.id === team.currentMemberId
+  );
+  // 削除されたメンバーが割り当てられている場合も選択肢に残す
+  const assigneeMissing =
+    !!thread.assignee_id &&
+    !team.members.some((member) => member.id === thread.assignee_id);
+
+  const handleAssigneeChange = (id: string) => {
+    const member = team.members.find((m) => m.id === id);
+    onChange({
+      ...thread,
+      assignee_id: member?.id,
+      assignee_name: member?.name,
+    });
+  };
+
+  const handlePost = () => {
+    if (!currentMember || !draft.trim()) return;
+    onChange({
+      ...thread,
+      comments: [
+        ...thread.comments,
+        {
+          id: `comment_${Date.now()}`,
+          author_id: currentMember.id,
+          author_name: currentMember.name,
+          body: draft.trim(),
+          created_at: Math.floor(Date.now() / 1000),
+        },
+      ],
+    });
+    setDraft("");
+  };
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm("このコメントを削除しますか？")) return;
+    onChange({
+      ...thread,
+      comments: thread.comments.filter((comment) => comment.id !== id),
+    });
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Typography
+        variant="subtitle2"
+        gutterBottom
+        sx={{ display: "flex", alignItems: "center", gap: 1 }}
+      >
+        <ForumIcon fontSize="small" color="action" />
+        担当・コメント
+      </Typography>
+      <Stack spacing={2}>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 2, flexWrap: "wrap" }}>
+          <TextField
+            select
+            label="担当者"
+            size="small"
+            value={thread.assignee_id ?? ""}
+            onChange={(e) => handleAssigneeChange(e.target.value)}
+            sx={{ minWidth: 180 }}
+            helperText={
+              team.members.length === 0
+                ? "チーム設定でメンバーを登録してください"
+                : undefined
+            }
+          >
+            <MenuItem value="">
+              <em>未割り当て</em>
+            </MenuItem>
+            {assigneeMissing && (
+              <MenuItem value={thread.assignee_id}>
+                {thread.assignee_name}（削除済み）
+              </MenuItem>
+            )}
+            {team.members.map((member) => (
+              <MenuItem key={member.id} value={member.id}>
+                {member.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={getReviewState(item)}
+            onChange={(_, value: ReviewState | null) =>
+              value && onChange({ ...thread, state: value })
+            }
+          >
+            {REVIEW_STATES.map((state) => (
+              <ToggleButton key={state} value={state}>
+                {REVIEW_STATE_LABELS[state]}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+
+        {thread.comments.length > 0 && (
+          <Stack spacing={1}>
+            {thread.comments.map((comment) => (
+              <Box
+                key={comment.id}
+                sx={{ pl: 2, borderLeft: "3px solid #e0e0e0" }}
+              >
+                <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                  <Typography variant="body2" sx={{ fontWeight: "bold" }}>
+                    {comment.author_name}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {formatDate(comment.created_at)}
+                  </Typography>
+                  {comment.author_id === team.currentMemberId && (
+                    <Tooltip title="コメントを削除">
+                      <IconButton
+                        size="small"
+                        onClick={() => handleDelete(comment.id)}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                </Box>
+                <Typography variant="body2" sx={{ whiteSpace: "pre-wrap" }}>
+                  {comment.body}
+                </Typography>
+              </Box>
+            ))}
+          </Stack>
+        )}
+
+        <Box sx={{ display: "flex", gap: 1, alignItems: "flex-start" }}>
+          <TextField
+            size="small"
+            fullWidth
+            multiline
+            placeholder={
+              currentMember
+                ? `${currentMember.name}としてコメント`
+                : "チーム設定で自分を選択するとコメントできます"
+            }
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            disabled={!currentMember}
+          />
+          <Button
+            variant="contained"
+            startIcon={<SendIcon />}
+            onClick={handlePost}
+            disabled={!currentMember || !draft.trim()}
+            sx={{ flexShrink: 0 }}
+          >
+            投稿
+          </Button>
+        </Box>
+      </Stack>
+    </Paper>
+  );
+};
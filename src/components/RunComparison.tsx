@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from "react";
+import {
+  Box,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import {
+  ArrowForward as ArrowForwardIcon,
+  TrendingUp as TrendingUpIcon,
+  TrendingDown as TrendingDownIcon,
+  AddCircleOutline as AddCircleOutlineIcon,
+  RemoveCircleOutline as RemoveCircleOutlineIcon,
+  Notes as NotesIcon,
+} from "@mui/icons-material";
+import type { JudgementItem } from "../types/dify";
+import type { UploadResult, WorkflowResult } from "../types/history";
+import { buildWorkflowResultView } from "../utils/workflowResultView";
+import { diffRuns, summarizeRunDiff, type RunDiffEntry } from "../utils/compareRuns";
+import { COMPLIANCE_STATUS_COLORS } from "../utils/compliance";
+import { formatDate } from "../utils/format";
+
+interface RunComparisonProps {
+  uploadResults: UploadResult[];
+  workflowResults: WorkflowResult[];
+}
+
+interface RunOption {
+  id: string;
+  label: string;
+  fileName: string;
+  items: JudgementItem[];
+}
+
+const StatusBadge: React.FC<{ item?: JudgementItem }> = ({ item }) =>
+  item ? (
+    <Typography
+      component="span"
+      fontWeight="bold"
+      sx={{ color: COMPLIANCE_STATUS_COLORS[item.assessment.compliance_status] }}
+    >
+      {item.assessment.compliance_status}
+    </Typography>
+  ) : (
+    <Typography component="span" color="text.disabled">
+      -
+    </Typography>
+  );
+
+const getEntryChip = (entry: RunDiffEntry) => {
+  switch (entry.kind) {
+    case "added":
+      return <Chip size="small" color="info" icon={<AddCircleOutlineIcon />} label="追加" />;
+    case "removed":
+      return <Chip size="small" icon={<RemoveCircleOutlineIcon />} label="削除" />;
+    case "matched":
+      if (entry.statusChange === "improved") {
+        return <Chip size="small" color="success" icon={<TrendingUpIcon />} label="改善" />;
+      }
+      if (entry.statusChange === "regressed") {
+        return <Chip size="small" color="error" icon={<TrendingDownIcon />} label="悪化" />;
+      }
+      if (entry.reasoningChanged) {
+        return <Chip size="small" variant="outlined" icon={<NotesIcon />} label="理由変更" />;
+      }
+      return <Chip size="small" variant="outlined" label="変化なし" />;
+  }
+};
+
+export const RunComparison: React.FC<RunComparisonProps> = ({
+  uploadResults,
+  workflowResults,
+}) => {
+  // 比較はAIの判定同士で行う（担当者レビューは反映しない）
+  const runs = useMemo<RunOption[]>(
+    () =>
+      workflowResults
+        .filter((result) => result.status === "completed")
+        .flatMap((result) => {
+          const upload = uploadResults.find((u) => u.id === result.file_id);
+          const validated = buildWorkflowResultView(result, upload).result;
+          if (!validated) return [];
+          const fileName = upload?.name ?? result.file_id;
+          return [
+            {
+              id: result.id,
+              label: `${fileName} - ${formatDate(result.created_at)}`,
+              fileName,
+              items: validated.outputs.judgement,
+            },
+          ];
+        }),
+    [uploadResults, workflowResults]
+  );
+
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+  const [afterId, setAfterId] = useState<string | null>(null);
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  // 初期値は最新の実行と、同じファイル名の1つ前の実行
+  const after = runs.find((run) => run.id === afterId) ?? runs[0];
+  const before =
+    runs.find((run) => run.id === beforeId) ??
+    runs.find((run) => run !== after && run.fileName === after?.fileName) ??
+    runs.find((run) => run !== after);
+
+  const entries = useMemo(
+    () => (before && after ? diffRuns(before.items, after.items) : []),
+    [before, after]
+  );
+  const summary = summarizeRunDiff(entries);
+  const visibleEntries = changesOnly
+    ? entries.filter(
+        (entry) =>
+          entry.kind !== "matched" ||
+          entry.statusChange !== "same" ||
+          entry.reasoningChanged
+      )
+    : entries;
+
+  if (runs.length < 2 || !before || !after) {
+    return null;
+  }
+
+  const renderRunSelect = (
+    id: string,
+    label: string,
+    value: RunOption,
+    onChange: (id: string) => void
+  ) => (
+    <FormControl size="small" sx={{ flex: 1, minWidth: 260 }}>
+      <InputLabel id={id}>{label}</InputLabel>
+      <Select
+        labelId={id}
+        label={label}
+        value={value.id}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {runs.map((run) => (
+          <MenuItem key={run.id} value={run.id}>
+            {run.label}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mt: 3, maxWidth: 1200, mx: "auto" }}>
+      <Typography variant="h5" gutterBottom>
+        実行結果の比較
+      </Typography>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 2, flexWrap: "wrap" }}>
+        {renderRunSelect("compare-before-label", "比較元", before, setBeforeId)}
+        <ArrowForwardIcon color="action" />
+        {renderRunSelect("compare-after-label", "比較先", after, setAfterId)}
+      </Box>
+
+      <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: "wrap" }} useFlexGap>
+        <Chip color="success" icon={<TrendingUpIcon />} label={`改善 ${summary.improved}件`} />
+        <Chip color="error" icon={<TrendingDownIcon />} label={`悪化 ${summary.regressed}件`} />
+        <Chip variant="outlined" icon={<NotesIcon />} label={`理由のみ変更 ${summary.reasoningChanged}件`} />
+        <Chip color="info" icon={<AddCircleOutlineIcon />} label={`追加 ${summary.added}件`} />
+        <Chip icon={<RemoveCircleOutlineIcon />} label={`削除 ${summary.removed}件`} />
+        <Chip variant="outlined" label={`変化なし ${summary.unchanged}件`} />
+        <Box sx={{ flex: 1 }} />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={changesOnly}
+              onChange={(e) => setChangesOnly(e.target.checked)}
+            />
+          }
+          label="変更のみ表示"
+        />
+      </Stack>
+
+      <TableContainer sx={{ maxHeight: 600 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ width: 110 }}>変化</TableCell>
+              <TableCell>要件</TableCell>
+              <TableCell align="center" sx={{ width: 90 }}>
+                判定
+              </TableCell>
+              <TableCell>判定理由</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {visibleEntries.map((entry, index) => {
+              const beforeItem = entry.kind === "added" ? undefined : entry.before;
+              const afterItem = entry.kind === "removed" ? undefined : entry.after;
+              const reworded =
+                entry.kind === "matched" && entry.similarity < 1;
+              return (
+                <TableRow key={index} hover>
+                  <TableCell>{getEntryChip(entry)}</TableCell>
+                  <TableCell>
+                    <Typography variant="body2">
+                      {(afterItem ?? beforeItem)?.original_item}
+                    </Typography>
+                    {reworded && (
+                      <Tooltip title={`類似度 ${Math.round(entry.similarity * 100)}%`}>
+                        <Typography variant="caption" color="text.secondary">
+                          前回の表記: {entry.before.original_item}
+                        </Typography>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                  <TableCell align="center">
+                    <Box sx={{ display: "flex", alignItems: "center", justifyContent: "center", gap: 0.5 }}>
+                      <StatusBadge item={beforeItem} />
+                      <ArrowForwardIcon sx={{ fontSize: 14 }} color="action" />
+                      <StatusBadge item={afterItem} />
+                    </Box>
+                  </TableCell>
+                  <TableCell>
+                    {entry.kind === "matched" && entry.reasoningChanged ? (
+                      <Stack spacing={0.5}>
+                        <Typography variant="caption" color="text.secondary">
+                          前回: {entry.before.assessment.reasoning}
+                        </Typography>
+                        <Typography variant="caption">
+                          今回: {entry.after.assessment.reasoning}
+                        </Typography>
+                      </Stack>
+                    ) : (
+                      <Typography variant="caption" color="text.secondary">
+                        {(afterItem ?? beforeItem)?.assessment.reasoning}
+                      </Typography>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Paper>
+  );
+};
@@ -0,0 +1,196 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Stack,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import {
+  Pause as PauseIcon,
+  PlayArrow as PlayArrowIcon,
+  Replay as ReplayIcon,
+  Close as CloseIcon,
+} from "@mui/icons-material";
+import type { RunQueueItem, RunQueueState } from "../hooks/useRunQueue";
+
+interface RunQueuePanelProps {
+  items: RunQueueItem[];
+  concurrency: number;
+  getFileName: (id: string) => string;
+  onPause: (ids: string[]) => void;
+  onResume: (ids: string[]) => void;
+  onRetry: (ids: string[]) => void;
+  onRemove: (ids: string[]) => void;
+  onClearFinished: () => void;
+}
+
+const STATE_CHIPS: Record<
+  RunQueueState,
+  { label: string; color: "default" | "primary" | "success" | "error" | "warning" }
+> = {
+  queued: { label: "待機中", color: "default" },
+  paused: { label: "一時停止", color: "warning" },
+  running: { label: "実行中", color: "primary" },
+  completed: { label: "完了", color: "success" },
+  failed: { label: "失敗", color: "error" },
+  stopped: { label: "停止", color: "default" },
+};
+
+export const RunQueuePanel: React.FC<RunQueuePanelProps> = ({
+  items,
+  concurrency,
+  getFileName,
+  onPause,
+  onResume,
+  onRetry,
+  onRemove,
+  onClearFinished,
+}) => {
+  const count = (...states: RunQueueState[]) =>
+    items.filter((item) => states.includes(item.state)).length;
+  const idsIn = (...states: RunQueueState[]) =>
+    items.filter((item) => states.includes(item.state)).map((item) => item.id);
+
+  const finished = count("completed", "failed", "stopped");
+  const percent = items.length > 0 ? Math.round((finished / items.length) * 100) : 0;
+  const active = count("queued", "running");
+  const paused = count("paused");
+  const retryable = count("failed", "stopped");
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mt: 3, maxWidth: 1200, mx: "auto" }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 1 }}>
+        <Typography variant="h6">一括実行</Typography>
+        <Typography variant="body2" color="text.secondary">
+          同時に{concurrency}件まで実行
+        </Typography>
+        <Box sx={{ ml: "auto", display: "flex", gap: 1 }}>
+          {active > 0 && (
+            <Button
+              size="small"
+              startIcon={<PauseIcon />}
+              onClick={() => onPause(idsIn("queued", "running"))}
+            >
+              すべて一時停止
+            </Button>
+          )}
+          {paused > 0 && (
+            <Button
+              size="small"
+              startIcon={<PlayArrowIcon />}
+              onClick={() => onResume(idsIn("paused"))}
+            >
+              すべて再開
+            </Button>
+          )}
+          {retryable > 0 && (
+            <Button
+              size="small"
+              startIcon={<ReplayIcon />}
+              onClick={() => onRetry(idsIn("failed", "stopped"))}
+            >
+              失敗分を再試行
+            </Button>
+          )}
+          {finished > 0 && (
+            <Button size="small" color="inherit" onClick={onClearFinished}>
+              終了分を消去
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+        <LinearProgress
+          variant="determinate"
+          value={percent}
+          color={count("failed") > 0 ? "warning" : "primary"}
+          sx={{ flex: 1, height: 8, borderRadius: 4 }}
+        />
+        <Typography variant="body2" sx={{ whiteSpace: "nowrap" }}>
+          {finished} / {items.length} 件（{percent}%）
+        </Typography>
+      </Box>
+      <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+        {(["running", "queued", "paused", "completed", "failed", "stopped"] as const)
+          .filter((state) => count(state) > 0)
+          .map((state) => (
+            <Chip
+              key={state}
+              label={`${STATE_CHIPS[state].label} ${count(state)}`}
+              color={STATE_CHIPS[state].color}
+              size="small"
+              variant="outlined"
+            />
+          ))}
+      </Stack>
+
+      <List dense sx={{ mt: 1 }}>
+        {items.map((item) => (
+          <ListItem
+            key={item.id}
+            secondaryAction={
+              <Box sx={{ display: "flex" }}>
+                {(item.state === "queued" || item.state === "running") && (
+                  <Tooltip
+                    title={
+                      item.state === "running"
+                        ? "一時停止（実行中の処理は中断し、再開時に最初から実行します）"
+                        : "一時停止"
+                    }
+                  >
+                    <IconButton size="small" onClick={() => onPause([item.id])}>
+                      <PauseIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {item.state === "paused" && (
+                  <Tooltip title="再開">
+                    <IconButton size="small" onClick={() => onResume([item.id])}>
+                      <PlayArrowIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {(item.state === "failed" || item.state === "stopped") && (
+                  <Tooltip title="再試行">
+                    <IconButton size="small" onClick={() => onRetry([item.id])}>
+                      <ReplayIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                <Tooltip title="キューから外す">
+                  <IconButton
+                    edge="end"
+                    size="small"
+                    onClick={() => onRemove([item.id])}
+                  >
+                    <CloseIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            }
+          >
+            <Chip
+              label={STATE_CHIPS[item.state].label}
+              color={STATE_CHIPS[item.state].color}
+              size="small"
+              sx={{ mr: 2, minWidth: 72 }}
+            />
+            <ListItemText
+              primary={getFileName(item.id)}
+              slotProps={{ primary: { noWrap: true } }}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Paper>
+  );
+};
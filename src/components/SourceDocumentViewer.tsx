@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Typography,
+} from "@mui/material";
+import {
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  ZoomIn as ZoomInIcon,
+  ZoomOut as ZoomOutIcon,
+  FindInPage as FindInPageIcon,
+  SearchOff as SearchOffIcon,
+} from "@mui/icons-material";
+import type { RenderTask } from "pdfjs-dist";
+import type { PdfDocumentState } from "../hooks/usePdfDocument";
+import { isPdfFile } from "../utils/pdfDocument";
+import {
+  verifyReference,
+  REFERENCE_STATUS_LABELS,
+} from "../utils/verifyReferences";
+
+interface SourceDocumentViewerProps {
+  file: File;
+  // usePdfDocument で読み込んだPDFとページテキスト
+  document: PdfDocumentState;
+  // ハイライトする参照元の引用文
+  quote?: string | null;
+}
+
+interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const SourceDocumentViewer: React.FC<SourceDocumentViewerProps> = ({
+  file,
+  document: { doc, pages, loading, error: loadError },
+  quote,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scale, setScale] = useState(1.2);
+  const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+
+  const imageUrl = useMemo(
+    () => (file.type.startsWith("image/") ? URL.createObjectURL(file) : null),
+    [file]
+  );
+  useEffect(() => {
+    return () => {
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+    };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    setPageNumber(1);
+  }, [doc]);
+
+  const verification = useMemo(
+    () => (quote && pages.length > 0 ? verifyReference(pages, quote) : null),
+    [pages, quote]
+  );
+  // 部分一致も含め、原文中で最も近い箇所をハイライトする
+  const location = verification?.match ?? null;
+
+  // 引用箇所が見つかったらそのページへ移動する
+  useEffect(() => {
+    if (location) setPageNumber(location.pageNumber);
+  }, [location]);
+
+  // 現在のページを描画し、引用箇所のテキスト片をハイライトする
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!doc || !canvas) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    doc.getPage(pageNumber).then((page) => {
+      if (cancelled) return;
+      const viewport = page.getViewport({ scale });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = page.render({ canvas, viewport });
+      renderTask.promise.catch((error) => {
+        if (error?.name !== "RenderingCancelledException") {
+          console.error("Failed to render PDF page:", error);
+        }
+      });
+
+      const pageText = pages.find((p) => p.pageNumber === pageNumber);
+      if (!location || location.pageNumber !== pageNumber || !pageText) {
+        setHighlights([]);
+        return;
+      }
+      setHighlights(
+        pageText.spans
+          .filter((span) => span.end > location.start && span.start < location.end)
+          .map((span) => {
+            // テキスト片の一部だけが一致する場合は文字数の比率で幅を切り出す
+            const length = Math.max(span.str.length, 1);
+            const from = Math.max(location.start - span.start, 0) / length;
+            const to = Math.min(location.end - span.start, length) / length;
+            const [, , , , x, y] = span.transform;
+            const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+              x + span.width * from,
+              y,
+              x + span.width * to,
+              y + span.height,
+            ]);
+            return {
+              left: Math.min(x1, x2),
+              top: Math.min(y1, y2),
+              width: Math.abs(x2 - x1),
+              height: Math.abs(y2 - y1),
+            };
+          })
+      );
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [doc, pageNumber, scale, pages, location]);
+
+  const renderQuoteStatus = () => {
+    if (!quote) {
+      return (
+        <Typography variant="body2" color="text.secondary">
+          判定項目を選択すると参照元の箇所を表示します
+        </Typography>
+      );
+    }
+    if (!isPdfFile(file)) {
+      return (
+        <Alert severity="info" sx={{ py: 0 }}>
+          画像内の文字は検索できないため、引用箇所を特定できません
+        </Alert>
+      );
+    }
+    if (loading || pages.length === 0) {
+      return <CircularProgress size={16} />;
+    }
+    return location && verification ? (
+      <Chip
+        icon={<FindInPageIcon />}
+        label={
+          verification.status === "verified"
+            ? `引用箇所: ${location.pageNumber}ページ`
+            : `${REFERENCE_STATUS_LABELS.partial}: ${location.pageNumber}ページ（一致度 ${Math.round(verification.score * 100)}%）`
+        }
+        color={verification.status === "verified" ? "success" : "warning"}
+        size="small"
+        onClick={() => setPageNumber(location.pageNumber)}
+      />
+    ) : (
+      <Chip
+        icon={<SearchOffIcon />}
+        label="引用箇所が文書内に見つかりません"
+        color="error"
+        size="small"
+      />
+    );
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 1, flexWrap: "wrap" }}>
+        <Typography variant="subtitle2" sx={{ mr: "auto" }} noWrap>
+          {file.name}
+        </Typography>
+        {doc && (
+          <>
+            <IconButton
+              size="small"
+              onClick={() => setPageNumber((p) => Math.max(1, p - 1))}
+              disabled={pageNumber <= 1}
+            >
+              <ChevronLeftIcon />
+            </IconButton>
+            <Typography variant="body2">
+              {pageNumber} / {doc.numPages}
+            </Typography>
+            <IconButton
+              size="small"
+              onClick={() => setPageNumber((p) => Math.min(doc.numPages, p + 1))}
+              disabled={pageNumber >= doc.numPages}
+            >
+              <ChevronRightIcon />
+            </IconButton>
+            <IconButton size="small" onClick={() => setScale((s) => Math.max(0.6, s - 0.2))}>
+              <ZoomOutIcon fontSize="small" />
+            </IconButton>
+            <IconButton size="small" onClick={() => setScale((s) => Math.min(3, s + 0.2))}>
+              <ZoomInIcon fontSize="small" />
+            </IconButton>
+          </>
+        )}
+      </Box>
+      <Box sx={{ mb: 1 }}>{renderQuoteStatus()}</Box>
+      {quote && (
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          sx={{ display: "block", mb: 1, fontStyle: "italic" }}
+        >
+          "{quote}"
+        </Typography>
+      )}
+
+      <Box sx={{ overflow: "auto", maxHeight: "70vh", backgroundColor: "#eeeeee" }}>
+        {loadError && <Alert severity="error">{loadError}</Alert>}
+        {isPdfFile(file) && (
+          <Box sx={{ position: "relative", width: "fit-content", mx: "auto" }}>
+            <canvas ref={canvasRef} style={{ display: "block" }} />
+            {highlights.map((rect, index) => (
+              <Box
+                key={index}
+                sx={{
+                  position: "absolute",
+                  ...rect,
+                  backgroundColor: "rgba(255, 235, 59, 0.45)",
+                  outline: "1px solid rgba(255, 193, 7, 0.9)",
+                  pointerEvents: "none",
+                }}
+              />
+            ))}
+          </Box>
+        )}
+        {imageUrl && (
+          <Box
+            component="img"
+            src={imageUrl}
+            alt={file.name}
+            sx={{ display: "block", maxWidth: "100%", mx: "auto" }}
+          />
+        )}
+        {!isPdfFile(file) && !imageUrl && (
+          <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+            このファイル形式はプレビューできません
+          </Typography>
+        )}
+      </Box>
+    </Paper>
+  );
+};
@@ -0,0 +1,35 @@
+import React from "react";
+import { Box, LinearProgress, Typography } from "@mui/material";
+import { Storage as StorageIcon } from "@mui/icons-material";
+import type { StorageUsage } from "../storage/historyDb";
+import { formatFileSize } from "../utils/format";
+
+interface StorageUsageIndicatorProps {
+  usage: StorageUsage | null;
+}
+
+export const StorageUsageIndicator: React.FC<StorageUsageIndicatorProps> = ({
+  usage,
+}) => {
+  if (!usage || usage.quota === 0) {
+    return null;
+  }
+
+  const ratio = Math.min(100, (usage.usage / usage.quota) * 100);
+
+  return (
+    <Box sx={{ display: "flex", alignItems: "center", gap: 1, minWidth: 240 }}>
+      <StorageIcon fontSize="small" color="action" />
+      <Box sx={{ flex: 1 }}>
+        <LinearProgress
+          variant="determinate"
+          value={ratio}
+          color={ratio > 80 ? "warning" : "primary"}
+        />
+        <Typography variant="caption" color="text.secondary">
+          保存領域: {formatFileSize(usage.usage)} / {formatFileSize(usage.quota)}
+        </Typography>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+import { Add as AddIcon, Delete as DeleteIcon } from "@mui/icons-material";
+import type { TeamMember, TeamSettings } from "../types/team";
+
+interface TeamSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  settings: TeamSettings;
+  onSave: (settings: TeamSettings) => void;
+}
+
+export const TeamSettingsDialog: React.FC<TeamSettingsDialogProps> = ({
+  open,
+  onClose,
+  settings,
+  onSave,
+}) => {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [currentMemberId, setCurrentMemberId] = useState<string | null>(null);
+
+  const handleEnter = () => {
+    setMembers(settings.members);
+    setCurrentMemberId(settings.currentMemberId);
+  };
+
+  const updateName = (id: string, name: string) =>
+    setMembers((prev) =>
+      prev.map((member) => (member.id === id ? { ...member, name } : member))
+    );
+
+  const removeMember = (id: string) => {
+    setMembers((prev) => prev.filter((member) => member.id !== id));
+    if (currentMemberId === id) setCurrentMemberId(null);
+  };
+
+  const handleSave = () => {
+    const saved = members
+      .map((member) => ({ ...member, name: member.name.trim() }))
+      .filter((member) => member.name);
+    onSave({
+      members: saved,
+      currentMemberId: saved.some((member) => member.id === currentMemberId)
+        ? currentMemberId
+        : null,
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      slotProps={{ transition: { onEnter: handleEnter } }}
+    >
+      <DialogTitle>チーム設定</DialogTitle>
+      <DialogContent dividers>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          判定項目の担当者として割り当てるメンバーを登録します。設定はこのブラウザに保存されます。
+        </Alert>
+        <Stack spacing={2}>
+          {members.map((member) => (
+            <Box key={member.id} sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+              <TextField
+                label="名前"
+                size="small"
+                fullWidth
+                value={member.name}
+                onChange={(e) => updateName(member.id, e.target.value)}
+              />
+              <Tooltip title="メンバーを削除">
+                <IconButton onClick={() => removeMember(member.id)}>
+                  <DeleteIcon />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          ))}
+          <Box>
+            <Button
+              startIcon={<AddIcon />}
+              onClick={() =>
+                setMembers((prev) => [
+                  ...prev,
+                  { id: `member_${Date.now()}`, name: "" },
+                ])
+              }
+            >
+              メンバーを追加
+            </Button>
+          </Box>
+          <TextField
+            select
+            label="自分"
+            size="small"
+            value={currentMemberId ?? ""}
+            onChange={(e) => setCurrentMemberId(e.target.value || null)}
+            helperText="コメントの投稿者と「自分の担当」の絞り込みに使います"
+          >
+            <MenuItem value="">
+              <em>未設定</em>
+            </MenuItem>
+            {members
+              .filter((member) => member.name.trim())
+              .map((member) => (
+                <MenuItem key={member.id} value={member.id}>
+                  {member.name}
+                </MenuItem>
+              ))}
+          </TextField>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>キャンセル</Button>
+        <Button variant="contained" onClick={handleSave}>
+          保存
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
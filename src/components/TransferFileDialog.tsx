@@ -0,0 +1,106 @@
+import React, { useState } from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import type { TransferMode } from "../storage/historyDb";
+import type { Project } from "../types/project";
+
+interface TransferFileDialogProps {
+  // 対象のファイル名。nullの場合は閉じている
+  fileName: string | null;
+  // 移動先の候補（現在のプロジェクトを除く）
+  projects: Project[];
+  onClose: () => void;
+  onTransfer: (projectId: string, mode: TransferMode) => void;
+}
+
+export const TransferFileDialog: React.FC<TransferFileDialogProps> = ({
+  fileName,
+  projects,
+  onClose,
+  onTransfer,
+}) => {
+  const [projectId, setProjectId] = useState("");
+  const [mode, setMode] = useState<TransferMode>("copy");
+
+  const handleEnter = () => {
+    setProjectId(projects[0]?.id ?? "");
+    setMode("copy");
+  };
+
+  return (
+    <Dialog
+      open={fileName !== null}
+      onClose={onClose}
+      maxWidth="xs"
+      fullWidth
+      slotProps={{ transition: { onEnter: handleEnter } }}
+    >
+      <DialogTitle>別のプロジェクトへ移動・コピー</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Typography variant="body2" sx={{ wordBreak: "break-all" }}>
+            {fileName}
+          </Typography>
+          {projects.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              移動先のプロジェクトがありません。プロジェクト一覧から作成してください。
+            </Typography>
+          ) : (
+            <>
+              <TextField
+                select
+                size="small"
+                label="移動先のプロジェクト"
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+              >
+                {projects.map((project) => (
+                  <MenuItem key={project.id} value={project.id}>
+                    {project.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <RadioGroup
+                value={mode}
+                onChange={(e) => setMode(e.target.value as TransferMode)}
+              >
+                <FormControlLabel
+                  value="copy"
+                  control={<Radio size="small" />}
+                  label="コピー（実行結果とレビューも複製し、このプロジェクトにも残す）"
+                />
+                <FormControlLabel
+                  value="move"
+                  control={<Radio size="small" />}
+                  label="移動（実行結果とレビューごと移す）"
+                />
+              </RadioGroup>
+            </>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>キャンセル</Button>
+        <Button
+          variant="contained"
+          onClick={() => onTransfer(projectId, mode)}
+          disabled={!projectId}
+        >
+          {mode === "move" ? "移動" : "コピー"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
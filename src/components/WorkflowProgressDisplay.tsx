@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Paper,
+  Typography,
+  Chip,
+  LinearProgress,
+  Stack,
+} from "@mui/material";
+import {
+  AccountTree as AccountTreeIcon,
+  Timer as TimerIcon,
+  CheckCircle as CheckCircleIcon,
+  Warning as WarningIcon,
+  Cancel as CancelIcon,
+} from "@mui/icons-material";
+import type { WorkflowProgress } from "../utils/difyStream";
+
+interface WorkflowProgressDisplayProps {
+  progress: WorkflowProgress;
+  fileName?: string;
+}
+
+export const WorkflowProgressDisplay: React.FC<WorkflowProgressDisplayProps> = ({
+  progress,
+  fileName,
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  // 経過時間表示のため1秒ごとに再描画
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const elapsedSeconds = Math.max(0, Math.floor((now - progress.startedAt) / 1000));
+
+  const getComplianceStatusIcon = (status: string) => {
+    switch (status) {
+      case "○":
+        return <CheckCircleIcon sx={{ color: "#4caf50" }} />;
+      case "△":
+        return <WarningIcon sx={{ color: "#ff9800" }} />;
+      default:
+        return <CancelIcon sx={{ color: "#f44336" }} />;
+    }
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 1 }}>
+        <Typography variant="subtitle1" fontWeight="medium">
+          {fileName || "ワークフロー"} を実行中
+        </Typography>
+        <Chip
+          icon={<AccountTreeIcon />}
+          label={progress.currentNode ?? "待機中"}
+          size="small"
+          color="primary"
+          variant="outlined"
+        />
+        <Typography
+          variant="body2"
+          color="text.secondary"
+          sx={{ ml: "auto", display: "flex", alignItems: "center", gap: 0.5 }}
+        >
+          <TimerIcon fontSize="small" />
+          {elapsedSeconds}秒
+        </Typography>
+      </Box>
+      <LinearProgress sx={{ mb: 1 }} />
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        完了ステップ: {progress.completedSteps} / 受信済み判定項目:{" "}
+        {progress.judgement.length}件
+      </Typography>
+      {progress.judgement.length > 0 && (
+        <Stack spacing={1} sx={{ mt: 1, maxHeight: 240, overflowY: "auto" }}>
+          {progress.judgement.map((item, index) => (
+            <Box
+              key={index}
+              sx={{ display: "flex", alignItems: "center", gap: 1 }}
+            >
+              {getComplianceStatusIcon(item.assessment?.compliance_status)}
+              <Typography variant="body2">{item.original_item}</Typography>
+            </Box>
+          ))}
+        </Stack>
+      )}
+    </Paper>
+  );
+};
@@ -0,0 +1,45 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { loadCategoryRules, saveCategoryRules } from "../storage/categoryRules";
+import type { CategoryRule } from "../utils/categoryClassifier";
+
+const RULES_CHANGE_EVENT = "categoryruleschange";
+
+// useSyncExternalStoreは毎回同じ参照を返す必要があるため、変更があるまで読み込み結果を使い回す
+let cachedRules: CategoryRule[] | undefined;
+
+const subscribe = (onChange: () => void) => {
+  const handleStorage = () => {
+    cachedRules = undefined;
+    onChange();
+  };
+  window.addEventListener("storage", handleStorage);
+  window.addEventListener(RULES_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", handleStorage);
+    window.removeEventListener(RULES_CHANGE_EVENT, onChange);
+  };
+};
+
+const getRules = () => {
+  cachedRules ??= loadCategoryRules();
+  return cachedRules;
+};
+
+const notify = () => {
+  cachedRules = undefined;
+  window.dispatchEvent(new Event(RULES_CHANGE_EVENT));
+};
+
+/**
+ * カテゴリ分類ルールをlocalStorageと同期する。別タブでの変更も反映する
+ */
+export const useCategoryRules = () => {
+  const rules = useSyncExternalStore(subscribe, getRules);
+
+  const setRules = useCallback((next: CategoryRule[]) => {
+    saveCategoryRules(next);
+    notify();
+  }, []);
+
+  return [rules, setRules] as const;
+};
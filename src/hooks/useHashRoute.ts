@@ -0,0 +1,37 @@
+import { useMemo, useSyncExternalStore } from "react";
+
+export type AppRoute =
+  | { page: "projects" }
+  | { page: "project"; projectId: string };
+
+export const PROJECTS_PATH = "#/projects";
+
+export const projectPath = (projectId: string) =>
+  `${PROJECTS_PATH}/${encodeURIComponent(projectId)}`;
+
+const parseRoute = (hash: string): AppRoute => {
+  const match = /^#\/projects\/([^/?]+)/.exec(hash);
+  return match
+    ? { page: "project", projectId: decodeURIComponent(match[1]) }
+    : { page: "projects" };
+};
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener("hashchange", onChange);
+  return () => window.removeEventListener("hashchange", onChange);
+};
+
+const getHash = () => window.location.hash;
+
+export const navigate = (path: string) => {
+  window.location.hash = path;
+};
+
+/**
+ * URLのハッシュから表示するページを決める
+ * ハッシュを使うのでサーバー側の設定なしで再読み込みやブックマークができる
+ */
+export const useHashRoute = (): AppRoute => {
+  const hash = useSyncExternalStore(subscribe, getHash);
+  return useMemo(() => parseRoute(hash), [hash]);
+};
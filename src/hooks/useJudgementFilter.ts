@@ -0,0 +1,40 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import {
+  parseJudgementFilter,
+  serializeJudgementFilter,
+  type JudgementFilterState,
+} from "../utils/judgementFilter";
+
+const FILTER_CHANGE_EVENT = "judgementfilterchange";
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(FILTER_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(FILTER_CHANGE_EVENT, onChange);
+  };
+};
+
+const getSearch = () => window.location.search;
+
+/**
+ * 判定一覧のフィルター条件をURLのクエリパラメータと同期する
+ * 同じページ内の複数の結果表示は同じ条件を共有する
+ */
+export const useJudgementFilter = () => {
+  const search = useSyncExternalStore(subscribe, getSearch);
+  const filter = useMemo(() => parseJudgementFilter(search), [search]);
+
+  const setFilter = useCallback((next: JudgementFilterState) => {
+    const query = serializeJudgementFilter(next, window.location.search);
+    window.history.replaceState(
+      window.history.state,
+      "",
+      `${window.location.pathname}${query}${window.location.hash}`
+    );
+    window.dispatchEvent(new Event(FILTER_CHANGE_EVENT));
+  }, []);
+
+  return [filter, setFilter] as const;
+};
@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import {
+  extractDocumentText,
+  isPdfFile,
+  loadPdfDocument,
+  type PdfPageText,
+} from "../utils/pdfDocument";
+
+export interface PdfDocumentState {
+  doc: PDFDocumentProxy | null;
+  // 全ページのテキスト。抽出が終わるまでは空
+  pages: PdfPageText[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * PDFを読み込み、引用箇所の検索用に全ページのテキストを抽出する
+ * PDF以外のファイルや未指定の場合は何も読み込まない
+ */
+export const usePdfDocument = (file?: File | null): PdfDocumentState => {
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [pages, setPages] = useState<PdfPageText[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file || !isPdfFile(file)) return;
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    setLoading(true);
+    setError(null);
+    loadPdfDocument(file)
+      .then(async (pdf) => {
+        loaded = pdf;
+        if (cancelled) return;
+        setDoc(pdf);
+        const texts = await extractDocumentText(pdf);
+        if (!cancelled) setPages(texts);
+      })
+      .catch((error) => {
+        console.error("Failed to load PDF:", error);
+        if (!cancelled) setError("PDFの読み込みに失敗しました");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+      setDoc(null);
+      setPages([]);
+      setLoading(false);
+    };
+  }, [file]);
+
+  return { doc, pages, loading, error };
+};
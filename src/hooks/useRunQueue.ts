@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type RunOutcome = "completed" | "failed" | "stopped";
+
+export type RunQueueState = "queued" | "paused" | "running" | RunOutcome;
+
+export interface RunQueueItem {
+  id: string;
+  state: RunQueueState;
+}
+
+export interface RunQueueOptions {
+  // 同時に実行する最大件数
+  concurrency: number;
+  run: (id: string) => Promise<RunOutcome>;
+  // 実行中の項目を一時停止する際に呼ばれる
+  stop: (id: string) => void;
+}
+
+const isFinished = (state: RunQueueState) =>
+  state === "completed" || state === "failed" || state === "stopped";
+
+/**
+ * 登録した項目を同時実行数の上限を守りながら順番に実行する
+ * 項目ごとに一時停止・再開・再試行ができる
+ */
+export const useRunQueue = ({ concurrency, run, stop }: RunQueueOptions) => {
+  const [items, setItems] = useState<RunQueueItem[]>([]);
+  // 実行の開始は描画後に行うため、常に最新の関数を参照する
+  const runRef = useRef(run);
+  const stopRef = useRef(stop);
+  useEffect(() => {
+    runRef.current = run;
+    stopRef.current = stop;
+  });
+
+  useEffect(() => {
+    const running = items.filter((item) => item.state === "running").length;
+    const next = items
+      .filter((item) => item.state === "queued")
+      .slice(0, Math.max(0, concurrency - running));
+    if (next.length === 0) return;
+
+    const ids = new Set(next.map((item) => item.id));
+    setItems((prev) =>
+      prev.map((item) => (ids.has(item.id) ? { ...item, state: "running" } : item))
+    );
+    for (const { id } of next) {
+      runRef.current(id).then((outcome) =>
+        // 実行中に一時停止・削除された項目はその状態を保つ
+        setItems((prev) =>
+          prev.map((item) =>
+            item.id === id && item.state === "running"
+              ? { ...item, state: outcome }
+              : item
+          )
+        )
+      );
+    }
+  }, [items, concurrency]);
+
+  const setState = (ids: string[], from: RunQueueState[], to: RunQueueState) =>
+    setItems((prev) =>
+      prev.map((item) =>
+        ids.includes(item.id) && from.includes(item.state)
+          ? { ...item, state: to }
+          : item
+      )
+    );
+
+  /**
+   * 項目を待ち行列に加える。実行中や待機中の項目はそのままにする
+   */
+  const enqueue = useCallback((ids: string[]) => {
+    setItems((prev) => {
+      const existing = new Map(prev.map((item) => [item.id, item]));
+      const requeued = prev.map((item) =>
+        ids.includes(item.id) && (isFinished(item.state) || item.state === "paused")
+          ? { ...item, state: "queued" as const }
+          : item
+      );
+      const added = ids
+        .filter((id) => !existing.has(id))
+        .map((id) => ({ id, state: "queued" as const }));
+      return [...requeued, ...added];
+    });
+  }, []);
+
+  const pause = (ids: string[]) => {
+    for (const item of items) {
+      if (ids.includes(item.id) && item.state === "running") {
+        stopRef.current(item.id);
+      }
+    }
+    setState(ids, ["queued", "running"], "paused");
+  };
+
+  const resume = (ids: string[]) => setState(ids, ["paused"], "queued");
+
+  const retry = (ids: string[]) => setState(ids, ["failed", "stopped"], "queued");
+
+  const remove = (ids: string[]) => {
+    pause(ids);
+    setItems((prev) => prev.filter((item) => !ids.includes(item.id)));
+  };
+
+  const clearFinished = () =>
+    setItems((prev) => prev.filter((item) => !isFinished(item.state)));
+
+  return { items, enqueue, pause, resume, retry, remove, clearFinished };
+};
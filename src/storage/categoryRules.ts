@@ -0,0 +1,23 @@
+import {
+  DEFAULT_CATEGORY_RULES,
+  type CategoryRule,
+} from "../utils/categoryClassifier";
+
+const STORAGE_KEY = "rfp-judge.categoryRules";
+
+/**
+ * 保存済みのカテゴリ分類ルールを読み込む。未保存の場合は既定のルールを返す
+ */
+export const loadCategoryRules = (): CategoryRule[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as CategoryRule[]) : DEFAULT_CATEGORY_RULES;
+  } catch (error) {
+    console.error("Failed to load category rules:", error);
+    return DEFAULT_CATEGORY_RULES;
+  }
+};
+
+export const saveCategoryRules = (rules: CategoryRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
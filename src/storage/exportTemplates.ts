@@ -0,0 +1,32 @@
+import {
+  DEFAULT_EXPORT_TEMPLATE,
+  type ExportTemplate,
+} from "../utils/exportJudgement";
+
+const STORAGE_KEY = "rfp-judge.exportTemplates";
+
+/**
+ * 保存済みのエクスポートテンプレートを読み込む。標準テンプレートは常に先頭に含める
+ */
+export const loadExportTemplates = (): ExportTemplate[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? (JSON.parse(raw) as ExportTemplate[]) : [];
+    return [
+      DEFAULT_EXPORT_TEMPLATE,
+      ...saved.filter((template) => template.id !== DEFAULT_EXPORT_TEMPLATE.id),
+    ];
+  } catch (error) {
+    console.error("Failed to load export templates:", error);
+    return [DEFAULT_EXPORT_TEMPLATE];
+  }
+};
+
+export const saveExportTemplates = (templates: ExportTemplate[]) => {
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify(
+      templates.filter((template) => template.id !== DEFAULT_EXPORT_TEMPLATE.id)
+    )
+  );
+};
@@ -0,0 +1,350 @@
+import type { UploadResult, WorkflowResult } from "../types/history";
+import type { WorkflowFixture } from "../types/fixture";
+import type { Project, ProjectSummary } from "../types/project";
+
+const DB_NAME = "rfp-judge";
+const DB_VERSION = 3;
+const UPLOAD_STORE = "uploads";
+const WORKFLOW_STORE = "workflowResults";
+const PROJECT_STORE = "projects";
+const FIXTURE_STORE = "fixtures";
+
+// プロジェクト導入前に保存された履歴の移行先
+export const LEGACY_PROJECT_ID = "legacy";
+
+export type TransferMode = "move" | "copy";
+
+export interface StoredHistory {
+  uploads: UploadResult[];
+  workflowResults: WorkflowResult[];
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction;
+        if (!db.objectStoreNames.contains(UPLOAD_STORE)) {
+          db.createObjectStore(UPLOAD_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(WORKFLOW_STORE)) {
+          const store = db.createObjectStore(WORKFLOW_STORE, { keyPath: "id" });
+          store.createIndex("file_id", "file_id");
+        }
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(FIXTURE_STORE)) {
+          db.createObjectStore(FIXTURE_STORE, { keyPath: "id" });
+        }
+        if (tx && event.oldVersion < 2) {
+          tx.objectStore(UPLOAD_STORE).createIndex("project_id", "project_id");
+          tx.objectStore(WORKFLOW_STORE).createIndex("project_id", "project_id");
+          if (event.oldVersion > 0) migrateToProjects(tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * 既存の履歴をすべて1つのプロジェクトにまとめる
+ */
+const migrateToProjects = (tx: IDBTransaction) => {
+  for (const name of [UPLOAD_STORE, WORKFLOW_STORE]) {
+    tx.objectStore(name).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, project_id: LEGACY_PROJECT_ID });
+      cursor.continue();
+    };
+  }
+  tx.objectStore(UPLOAD_STORE).count().onsuccess = (event) => {
+    if ((event.target as IDBRequest<number>).result === 0) return;
+    const now = Math.floor(Date.now() / 1000);
+    const project: Project = {
+      id: LEGACY_PROJECT_ID,
+      name: "移行した履歴",
+      issuer: "",
+      deadline: "",
+      notes: "プロジェクト機能の導入前に保存されていたファイルと実行結果です。",
+      created_at: now,
+      updated_at: now,
+    };
+    tx.objectStore(PROJECT_STORE).put(project);
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// 新しい順に並べる
+const byCreatedAtDesc = <T extends { created_at: number }>(items: T[]) =>
+  [...items].sort((a, b) => b.created_at - a.created_at);
+
+const deleteByIndex = async (
+  store: IDBObjectStore,
+  indexName: string,
+  key: string
+) => {
+  const keys = await requestToPromise(store.index(indexName).getAllKeys(key));
+  keys.forEach((primaryKey) => store.delete(primaryKey));
+};
+
+/**
+ * 保存済みのプロジェクトを更新日時の新しい順に読み込む
+ */
+export const loadProjects = async (): Promise<Project[]> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECT_STORE, "readonly");
+  const projects = await requestToPromise<Project[]>(
+    tx.objectStore(PROJECT_STORE).getAll()
+  );
+  return [...projects].sort((a, b) => b.updated_at - a.updated_at);
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECT_STORE, "readwrite");
+  tx.objectStore(PROJECT_STORE).put(project);
+  await transactionDone(tx);
+};
+
+/**
+ * プロジェクトと、そこに含まれるファイル・実行結果をまとめて削除する
+ */
+export const deleteProject = async (projectId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(
+    [PROJECT_STORE, UPLOAD_STORE, WORKFLOW_STORE],
+    "readwrite"
+  );
+  tx.objectStore(PROJECT_STORE).delete(projectId);
+  await Promise.all([
+    deleteByIndex(tx.objectStore(UPLOAD_STORE), "project_id", projectId),
+    deleteByIndex(tx.objectStore(WORKFLOW_STORE), "project_id", projectId),
+  ]);
+  await transactionDone(tx);
+};
+
+/**
+ * プロジェクト一覧に表示する件数などを集計する
+ */
+export const loadProjectSummaries = async (): Promise<
+  Record<string, ProjectSummary>
+> => {
+  const db = await openDb();
+  const tx = db.transaction([UPLOAD_STORE, WORKFLOW_STORE], "readonly");
+  const [uploads, workflowResults] = await Promise.all([
+    requestToPromise<UploadResult[]>(tx.objectStore(UPLOAD_STORE).getAll()),
+    requestToPromise<WorkflowResult[]>(tx.objectStore(WORKFLOW_STORE).getAll()),
+  ]);
+
+  const summaries: Record<string, ProjectSummary> = {};
+  const summaryOf = (projectId = LEGACY_PROJECT_ID) =>
+    (summaries[projectId] ??= { documentCount: 0, runCount: 0, reviewedCount: 0 });
+  const touch = (summary: ProjectSummary, createdAt: number) => {
+    summary.lastActivityAt = Math.max(summary.lastActivityAt ?? 0, createdAt);
+  };
+
+  for (const upload of uploads) {
+    const summary = summaryOf(upload.project_id);
+    summary.documentCount++;
+    touch(summary, upload.created_at);
+  }
+  for (const result of workflowResults) {
+    const summary = summaryOf(result.project_id);
+    summary.runCount++;
+    // 対応状況だけを確認済みにした項目もレビュー済みとして数える
+    const reviewed = new Set(Object.keys(result.reviews ?? {}));
+    Object.entries(result.threads ?? {}).forEach(([index, thread]) => {
+      if (thread.state === "done") reviewed.add(index);
+    });
+    summary.reviewedCount += reviewed.size;
+    touch(summary, result.created_at);
+  }
+  return summaries;
+};
+
+/**
+ * プロジェクトに保存済みのアップロード履歴とワークフロー実行結果を読み込む
+ */
+export const loadHistory = async (projectId: string): Promise<StoredHistory> => {
+  const db = await openDb();
+  const tx = db.transaction([UPLOAD_STORE, WORKFLOW_STORE], "readonly");
+  const [uploads, workflowResults] = await Promise.all([
+    requestToPromise<UploadResult[]>(
+      tx.objectStore(UPLOAD_STORE).index("project_id").getAll(projectId)
+    ),
+    requestToPromise<WorkflowResult[]>(
+      tx.objectStore(WORKFLOW_STORE).index("project_id").getAll(projectId)
+    ),
+  ]);
+  return {
+    uploads: byCreatedAtDesc(uploads),
+    workflowResults: byCreatedAtDesc(workflowResults),
+  };
+};
+
+export const saveUpload = async (upload: UploadResult): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(UPLOAD_STORE, "readwrite");
+  try {
+    tx.objectStore(UPLOAD_STORE).put(upload);
+    await transactionDone(tx);
+  } catch (error) {
+    // 容量不足などでファイル本体を保存できない場合はメタデータのみ保存する
+    if (!upload.file) throw error;
+    console.warn("Failed to store file blob, saving metadata only:", error);
+    await saveUpload({ ...upload, file: undefined });
+  }
+};
+
+export const saveWorkflowResult = async (
+  result: WorkflowResult
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(WORKFLOW_STORE, "readwrite");
+  tx.objectStore(WORKFLOW_STORE).put(result);
+  await transactionDone(tx);
+};
+
+/**
+ * アップロード履歴と、そのファイルに紐づく実行結果をまとめて削除する
+ */
+export const deleteUpload = async (fileId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([UPLOAD_STORE, WORKFLOW_STORE], "readwrite");
+  tx.objectStore(UPLOAD_STORE).delete(fileId);
+  await deleteByIndex(tx.objectStore(WORKFLOW_STORE), "file_id", fileId);
+  await transactionDone(tx);
+};
+
+/**
+ * ファイルを実行結果・レビューごと別のプロジェクトへ移動またはコピーする
+ * コピーしたファイルはDify上の同じファイルを参照するため、再アップロードは不要
+ */
+export const transferUpload = async (
+  fileId: string,
+  projectId: string,
+  mode: TransferMode
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([UPLOAD_STORE, WORKFLOW_STORE], "readwrite");
+  const uploadStore = tx.objectStore(UPLOAD_STORE);
+  const workflowStore = tx.objectStore(WORKFLOW_STORE);
+  const [upload, workflowResults] = await Promise.all([
+    requestToPromise<UploadResult | undefined>(uploadStore.get(fileId)),
+    requestToPromise<WorkflowResult[]>(
+      workflowStore.index("file_id").getAll(fileId)
+    ),
+  ]);
+  if (!upload) {
+    tx.abort();
+    throw new Error("移動するファイルが見つかりません");
+  }
+
+  if (mode === "move") {
+    uploadStore.put({ ...upload, project_id: projectId });
+    workflowResults.forEach((result) =>
+      workflowStore.put({ ...result, project_id: projectId })
+    );
+  } else {
+    const copyId = `copy_${Date.now()}_${upload.upload_file_id ?? upload.id}`;
+    uploadStore.put({
+      ...upload,
+      id: copyId,
+      upload_file_id: upload.upload_file_id ?? upload.id,
+      project_id: projectId,
+    });
+    workflowResults.forEach((result) =>
+      workflowStore.put({
+        ...result,
+        id: `${result.id}_${copyId}`,
+        file_id: copyId,
+        project_id: projectId,
+      })
+    );
+  }
+  await transactionDone(tx);
+};
+
+export const deleteWorkflowResult = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(WORKFLOW_STORE, "readwrite");
+  tx.objectStore(WORKFLOW_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * プロジェクト内のアップロード履歴と実行結果をすべて削除する
+ */
+export const clearHistory = async (projectId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([UPLOAD_STORE, WORKFLOW_STORE], "readwrite");
+  await Promise.all([
+    deleteByIndex(tx.objectStore(UPLOAD_STORE), "project_id", projectId),
+    deleteByIndex(tx.objectStore(WORKFLOW_STORE), "project_id", projectId),
+  ]);
+  await transactionDone(tx);
+};
+
+/**
+ * オフライン再生用に保存した応答を新しい順に読み込む
+ */
+export const loadFixtures = async (): Promise<WorkflowFixture[]> => {
+  const db = await openDb();
+  const tx = db.transaction(FIXTURE_STORE, "readonly");
+  const fixtures = await requestToPromise<WorkflowFixture[]>(
+    tx.objectStore(FIXTURE_STORE).getAll()
+  );
+  return byCreatedAtDesc(fixtures);
+};
+
+export const saveFixture = async (fixture: WorkflowFixture): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(FIXTURE_STORE, "readwrite");
+  tx.objectStore(FIXTURE_STORE).put(fixture);
+  await transactionDone(tx);
+};
+
+export const deleteFixture = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(FIXTURE_STORE, "readwrite");
+  tx.objectStore(FIXTURE_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * ブラウザのストレージ使用量を取得する。取得できない環境ではnullを返す
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,42 @@
+import type { WorkflowProfile } from "../types/profile";
+
+const PROFILES_KEY = "rfp-judge.profiles";
+const ACTIVE_PROFILE_KEY = "rfp-judge.activeProfile";
+
+export const DEFAULT_PROFILE_ID = "default";
+export const DEFAULT_INPUT_VARIABLE_NAME = "file";
+
+export const createDefaultProfile = (): WorkflowProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: "既定",
+  baseUrl: "",
+  uploadApiKey: "",
+  workflowApiKey: "",
+  inputVariableName: DEFAULT_INPUT_VARIABLE_NAME,
+  userId: import.meta.env.VITE_DIFY_USER_ID || "user-123",
+});
+
+/**
+ * 保存済みのワークフロープロファイルを読み込む。未保存の場合は既定のプロファイルだけを返す
+ */
+export const loadProfiles = (): WorkflowProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const saved = raw ? (JSON.parse(raw) as WorkflowProfile[]) : [];
+    return saved.length > 0 ? saved : [createDefaultProfile()];
+  } catch (error) {
+    console.error("Failed to load workflow profiles:", error);
+    return [createDefaultProfile()];
+  }
+};
+
+export const saveProfiles = (profiles: WorkflowProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveProfileId = (): string =>
+  localStorage.getItem(ACTIVE_PROFILE_KEY) ?? DEFAULT_PROFILE_ID;
+
+export const saveActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+};
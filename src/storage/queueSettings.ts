@@ -0,0 +1,18 @@
+const STORAGE_KEY = "rfp-judge.runConcurrency";
+
+export const DEFAULT_RUN_CONCURRENCY = 2;
+export const MAX_RUN_CONCURRENCY = 4;
+
+/**
+ * 一括実行の同時実行数を読み込む。不正な値は既定値に戻す
+ */
+export const loadRunConcurrency = (): number => {
+  const saved = Number(localStorage.getItem(STORAGE_KEY));
+  return Number.isInteger(saved) && saved >= 1 && saved <= MAX_RUN_CONCURRENCY
+    ? saved
+    : DEFAULT_RUN_CONCURRENCY;
+};
+
+export const saveRunConcurrency = (concurrency: number) => {
+  localStorage.setItem(STORAGE_KEY, String(concurrency));
+};
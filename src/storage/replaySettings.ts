@@ -0,0 +1,42 @@
+import { BUILTIN_FIXTURES } from "../api/fixtures";
+
+const STORAGE_KEY = "rfp-judge.replay";
+
+export interface ReplaySettings {
+  // 有効な場合はDify APIに接続せず、記録済みの応答を再生する
+  enabled: boolean;
+  fixtureId: string;
+  // ワークフロー1回の実行にかける時間（ミリ秒）
+  latencyMs: number;
+}
+
+export const REPLAY_LATENCY_OPTIONS = [
+  { value: 0, label: "待ち時間なし" },
+  { value: 3000, label: "約3秒" },
+  { value: 10000, label: "約10秒" },
+  { value: 30000, label: "約30秒" },
+];
+
+export const DEFAULT_REPLAY_SETTINGS: ReplaySettings = {
+  enabled: false,
+  fixtureId: BUILTIN_FIXTURES[0].id,
+  latencyMs: 3000,
+};
+
+/**
+ * 保存済みの再生設定を読み込む。未設定の項目は既定値で補う
+ */
+export const loadReplaySettings = (): ReplaySettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? (JSON.parse(raw) as Partial<ReplaySettings>) : {};
+    return { ...DEFAULT_REPLAY_SETTINGS, ...saved };
+  } catch (error) {
+    console.error("Failed to load replay settings:", error);
+    return DEFAULT_REPLAY_SETTINGS;
+  }
+};
+
+export const saveReplaySettings = (settings: ReplaySettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
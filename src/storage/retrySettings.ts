@@ -0,0 +1,23 @@
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from "../api/retry";
+
+const STORAGE_KEY = "rfp-judge.retryPolicy";
+
+export const MAX_RETRY_ATTEMPTS = 6;
+
+/**
+ * 保存済みの再試行設定を読み込む。未設定の項目は既定値で補う
+ */
+export const loadRetryPolicy = (): RetryPolicy => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? (JSON.parse(raw) as Partial<RetryPolicy>) : {};
+    return { ...DEFAULT_RETRY_POLICY, ...saved };
+  } catch (error) {
+    console.error("Failed to load retry policy:", error);
+    return DEFAULT_RETRY_POLICY;
+  }
+};
+
+export const saveRetryPolicy = (policy: RetryPolicy) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(policy));
+};
@@ -0,0 +1,26 @@
+import type { TeamSettings } from "../types/team";
+
+const STORAGE_KEY = "rfp-judge.team";
+
+export const DEFAULT_TEAM_SETTINGS: TeamSettings = {
+  members: [],
+  currentMemberId: null,
+};
+
+/**
+ * 保存済みのチーム設定を読み込む。未保存の場合はメンバーなしの設定を返す
+ */
+export const loadTeamSettings = (): TeamSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? (JSON.parse(raw) as Partial<TeamSettings>) : {};
+    return { ...DEFAULT_TEAM_SETTINGS, ...saved };
+  } catch (error) {
+    console.error("Failed to load team settings:", error);
+    return DEFAULT_TEAM_SETTINGS;
+  }
+};
+
+export const saveTeamSettings = (settings: TeamSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
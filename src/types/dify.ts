@@ -0,0 +1,201 @@
+export interface Assessment {
+  compliance_status: "○" | "△" | "×";
+  reasoning: string;
+  alternative_solution?: string;
+  reference_source?: string;
+  type?: string;
+}
+
+// 担当者による判定の上書き。未指定の項目はAIの判定をそのまま使う
+export interface JudgementReview {
+  compliance_status?: Assessment["compliance_status"];
+  reasoning?: string;
+  alternative_solution?: string;
+  confirmed: boolean;
+  reviewed_at: number;
+}
+
+// チームでの確認作業の状態
+export type ReviewState = "todo" | "in_progress" | "done" | "escalated";
+
+export interface ReviewComment {
+  id: string;
+  // メンバーを削除しても分かるよう投稿時の名前も残す
+  author_id: string;
+  author_name: string;
+  body: string;
+  created_at: number;
+}
+
+// 判定項目ごとの担当者の割り当て・対応状況・コメント
+export interface ReviewThread {
+  assignee_id?: string;
+  assignee_name?: string;
+  // 未設定の場合はレビューの「確認済み」から決まる
+  state?: ReviewState;
+  comments: ReviewComment[];
+}
+
+// 判定の履歴の1件。ワークフローの最初の判定か、1項目だけの再判定の結果
+export interface AssessmentRevision {
+  assessment: Assessment;
+  // 再判定の際に担当者が補足した前提や仕様の抜粋
+  context?: string;
+  workflow_run_id?: string;
+  judged_at: number;
+}
+
+// 入札判断での要件の重要度
+export type RequirementPriority = "mandatory" | "standard" | "optional";
+
+export interface JudgementItem {
+  original_item: string;
+  assessment: Assessment;
+  // 要件一覧シートから取り込んだ場合の元の行番号
+  row_number?: number;
+  review?: JudgementReview;
+  // 担当者が設定した重要度。未設定の場合は要件の文言から推定する
+  priority?: RequirementPriority;
+  // ワークフローがtypeを返さない場合に、分類ルールで推定したカテゴリ
+  category?: string;
+  // 再判定した項目の判定履歴。古い順で、最後が現在の判定
+  revisions?: AssessmentRevision[];
+  thread?: ReviewThread;
+}
+
+export interface DifyWorkflowResult {
+  id: string;
+  workflow_id: string;
+  status: "succeeded" | "failed" | "running" | "stopped";
+  outputs: {
+    judgement: JudgementItem[];
+  };
+  error?: string;
+  elapsed_time: number;
+  total_tokens: number;
+  total_steps: number;
+  created_at: number;
+  finished_at: number;
+}
+
+export interface DifyUploadResponse {
+  id: string;
+  name: string;
+  size: number;
+  extension: string;
+  mime_type: string;
+  created_by: string;
+  created_at: number;
+}
+
+export interface DifyWorkflowResponse {
+  task_id?: string;
+  workflow_run_id?: string;
+  data?: {
+    outputs?: unknown;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export type WorkflowResponseMode = "blocking" | "streaming";
+
+export interface DifyFileInput {
+  type: "document" | "image" | "audio" | "video" | "custom";
+  transfer_method: "local_file" | "remote_url";
+  upload_file_id?: string;
+  url?: string;
+}
+
+export interface DifyWorkflowRunRequest {
+  inputs: Record<string, unknown>;
+  user: string;
+  response_mode: WorkflowResponseMode;
+}
+
+export interface DifyStopTaskResponse {
+  result: "success";
+}
+
+// GET /workflows/run/:workflow_run_id のレスポンス
+export interface DifyWorkflowRunDetail {
+  id: string;
+  workflow_id: string;
+  status: DifyWorkflowResult["status"];
+  inputs: unknown;
+  outputs: unknown;
+  error?: string | null;
+  total_steps: number;
+  total_tokens: number;
+  created_at: number;
+  finished_at: number | null;
+  elapsed_time: number;
+}
+
+// ストリーミングモードでDifyから送られてくるSSEイベント
+interface DifyStreamEventBase {
+  task_id: string;
+  workflow_run_id: string;
+}
+
+export interface WorkflowStartedEvent extends DifyStreamEventBase {
+  event: "workflow_started";
+  data: {
+    id: string;
+    workflow_id: string;
+    created_at: number;
+  };
+}
+
+export interface NodeStartedEvent extends DifyStreamEventBase {
+  event: "node_started";
+  data: {
+    id: string;
+    node_id: string;
+    node_type: string;
+    title: string;
+    index: number;
+    created_at: number;
+  };
+}
+
+export interface NodeFinishedEvent extends DifyStreamEventBase {
+  event: "node_finished";
+  data: {
+    id: string;
+    node_id: string;
+    node_type: string;
+    title: string;
+    index: number;
+    status: "running" | "succeeded" | "failed" | "stopped";
+    outputs?: Record<string, unknown> | null;
+    error?: string | null;
+    elapsed_time?: number;
+    created_at: number;
+  };
+}
+
+export interface TextChunkEvent extends DifyStreamEventBase {
+  event: "text_chunk";
+  data: {
+    text: string;
+    from_variable_selector?: string[];
+  };
+}
+
+export interface WorkflowFinishedEvent extends DifyStreamEventBase {
+  event: "workflow_finished";
+  data: DifyWorkflowResult;
+}
+
+export interface PingEvent {
+  event: "ping";
+}
+
+export type DifyStreamEvent =
+  | WorkflowStartedEvent
+  | NodeStartedEvent
+  | NodeFinishedEvent
+  | TextChunkEvent
+  | WorkflowFinishedEvent
+  | PingEvent;
@@ -0,0 +1,17 @@
+import type { DifyUploadResponse, DifyWorkflowResponse } from "./dify";
+
+/**
+ * オフラインで再生するために記録したDifyの応答
+ */
+export interface WorkflowFixture {
+  id: string;
+  name: string;
+  // 記録元のファイル名
+  source_name?: string;
+  // 記録元のアップロード応答。再生時はアップロードしたファイルの情報で上書きする
+  upload?: DifyUploadResponse;
+  response: DifyWorkflowResponse;
+  created_at: number;
+  // アプリに同梱されている記録（削除できない）
+  builtin?: boolean;
+}
@@ -0,0 +1,48 @@
+import type {
+  AssessmentRevision,
+  DifyUploadResponse,
+  DifyWorkflowResponse,
+  JudgementReview,
+  RequirementPriority,
+  ReviewThread,
+} from "./dify";
+
+export interface RequirementRow {
+  row_number: number;
+  requirement: string;
+}
+
+export interface UploadResult extends DifyUploadResponse {
+  // 所属するRFPプロジェクト
+  project_id?: string;
+  // 別のプロジェクトからコピーしたファイルは id が別になるため、Difyに渡すファイルIDを保持する
+  upload_file_id?: string;
+  file?: File;
+  // 要件一覧シートを取り込んだ場合はDifyへアップロードせず、抽出した要件を保持する
+  requirements?: RequirementRow[];
+}
+
+export interface WorkflowResult {
+  id: string;
+  file_id: string;
+  project_id?: string;
+  status: "running" | "completed" | "failed" | "stopped";
+  result?: DifyWorkflowResponse;
+  created_at: number;
+  error?: string;
+  // 自動再試行を含めた試行回数
+  attempts?: number;
+  // 実行に使ったワークフロープロファイル。削除後も分かるよう名前も残す
+  profile_id?: string;
+  profile_name?: string;
+  // オフラインデモで再生した記録の名前。実際のDifyの実行結果ではない
+  replay_fixture_name?: string;
+  // 判定項目のインデックスごとの担当者レビュー
+  reviews?: Record<number, JudgementReview>;
+  // 判定項目のインデックスごとに担当者が設定した重要度
+  priorities?: Record<number, RequirementPriority>;
+  // 判定項目のインデックスごとの再判定の結果。古い順
+  rejudgements?: Record<number, AssessmentRevision[]>;
+  // 判定項目のインデックスごとの担当者・対応状況・コメント
+  threads?: Record<number, ReviewThread>;
+}
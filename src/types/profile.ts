@@ -0,0 +1,12 @@
+export interface WorkflowProfile {
+  id: string;
+  name: string;
+  // 空の場合はローカルのプロキシ (/api) を使う
+  baseUrl: string;
+  // 空の場合はプロキシがサーバー側で保持するキーを使う
+  uploadApiKey: string;
+  workflowApiKey: string;
+  // アップロードしたドキュメントを渡すワークフローの入力変数名
+  inputVariableName: string;
+  userId: string;
+}
@@ -0,0 +1,21 @@
+export interface Project {
+  id: string;
+  // 案件名
+  name: string;
+  // 発注元
+  issuer: string;
+  // 提出期限 (YYYY-MM-DD)。未定の場合は空
+  deadline: string;
+  notes: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ProjectSummary {
+  documentCount: number;
+  runCount: number;
+  // 担当者レビュー済みの判定項目数
+  reviewedCount: number;
+  // 最後にファイルを追加または実行した日時
+  lastActivityAt?: number;
+}
@@ -0,0 +1,11 @@
+export interface TeamMember {
+  id: string;
+  name: string;
+}
+
+export interface TeamSettings {
+  // 担当者として割り当てられるメンバー
+  members: TeamMember[];
+  // このブラウザを使っているメンバー。コメントの投稿者と「自分の担当」に使う
+  currentMemberId: string | null;
+}
@@ -0,0 +1,77 @@
+import type { JudgementItem } from "../types/dify";
+
+// 要件の文言にキーワードが含まれていればそのカテゴリに分類する
+export interface CategoryRule {
+  category: string;
+  keywords: string[];
+}
+
+// 同数で一致した場合は先のルールが優先されるため、業務固有のカテゴリを汎用的なカテゴリより先に置く
+export const DEFAULT_CATEGORY_RULES: CategoryRule[] = [
+  {
+    category: "セキュリティ",
+    keywords: [
+      "セキュリティ",
+      "パスワード",
+      "認証",
+      "ログイン",
+      "暗号",
+      "アクセス権",
+      "権限",
+      "個人情報",
+      "不正",
+      "ウイルス",
+    ],
+  },
+  {
+    category: "健康管理",
+    keywords: ["健康", "体温", "検温", "体調", "アレルギー", "午睡", "食事", "身長", "体重", "服薬"],
+  },
+  {
+    category: "欠席連絡",
+    keywords: ["欠席", "遅刻", "早退", "お休み", "出欠", "登園", "降園"],
+  },
+  {
+    category: "通知",
+    keywords: ["通知", "お知らせ", "プッシュ", "メール", "配信", "連絡帳", "アラート"],
+  },
+  {
+    category: "運用・保守",
+    keywords: ["保守", "サポート", "問い合わせ", "障害", "バックアップ", "稼働", "研修", "マニュアル"],
+  },
+];
+
+/**
+ * 要件の文言をルールで分類する。一致したキーワードが最も多いルールを選び、同数の場合は先のルールを優先する
+ */
+export const classifyRequirement = (
+  requirement: string,
+  rules: CategoryRule[]
+): string | undefined => {
+  const text = requirement.normalize("NFKC").toLowerCase();
+  let best: { category: string; hits: number } | undefined;
+  rules.forEach(({ category, keywords }) => {
+    const hits = keywords.filter(
+      (keyword) =>
+        keyword.trim() !== "" &&
+        text.includes(keyword.normalize("NFKC").toLowerCase().trim())
+    ).length;
+    if (category.trim() && hits > 0 && (!best || hits > best.hits)) {
+      best = { category: category.trim(), hits };
+    }
+  });
+  return best?.category;
+};
+
+/**
+ * ワークフローがカテゴリ（type）を返さなかった項目に、ルールで推定したカテゴリを紐づける
+ */
+export const attachCategories = (
+  items: JudgementItem[],
+  rules: CategoryRule[]
+): JudgementItem[] =>
+  items.map((item) => {
+    if (item.assessment.type?.trim()) return item;
+    const category = classifyRequirement(item.original_item, rules);
+    return category ? { ...item, category } : item;
+  });
@@ -0,0 +1,135 @@
+import type { JudgementItem } from "../types/dify";
+import type { ComplianceStatus } from "./compliance";
+import { normalizeText, textSimilarity } from "./text";
+
+// 言い回しが少し変わった要件を同一とみなす類似度のしきい値
+export const FUZZY_MATCH_THRESHOLD = 0.75;
+
+export type StatusChange = "improved" | "regressed" | "same";
+
+export type RunDiffEntry =
+  | {
+      kind: "matched";
+      before: JudgementItem;
+      after: JudgementItem;
+      similarity: number;
+      statusChange: StatusChange;
+      reasoningChanged: boolean;
+    }
+  | { kind: "added"; after: JudgementItem }
+  | { kind: "removed"; before: JudgementItem };
+
+export interface RunDiffSummary {
+  improved: number;
+  regressed: number;
+  reasoningChanged: number;
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+const STATUS_RANK: Record<ComplianceStatus, number> = {
+  "×": 0,
+  "△": 1,
+  "○": 2,
+};
+
+const compareStatus = (
+  before: ComplianceStatus,
+  after: ComplianceStatus
+): StatusChange => {
+  const diff = STATUS_RANK[after] - STATUS_RANK[before];
+  return diff > 0 ? "improved" : diff < 0 ? "regressed" : "same";
+};
+
+/**
+ * 2回の実行結果の判定項目を original_item で対応付けて差分を求める
+ * 完全一致(正規化後)を優先し、残りは類似度の高い順に貪欲に対応付ける
+ */
+export const diffRuns = (
+  beforeItems: JudgementItem[],
+  afterItems: JudgementItem[]
+): RunDiffEntry[] => {
+  const pairs = new Map<number, { afterIndex: number; similarity: number }>();
+  const usedAfter = new Set<number>();
+
+  const afterByText = new Map<string, number[]>();
+  afterItems.forEach((item, index) => {
+    const key = normalizeText(item.original_item);
+    afterByText.set(key, [...(afterByText.get(key) ?? []), index]);
+  });
+
+  beforeItems.forEach((item, beforeIndex) => {
+    const candidates = afterByText.get(normalizeText(item.original_item)) ?? [];
+    const afterIndex = candidates.find((index) => !usedAfter.has(index));
+    if (afterIndex !== undefined) {
+      pairs.set(beforeIndex, { afterIndex, similarity: 1 });
+      usedAfter.add(afterIndex);
+    }
+  });
+
+  const fuzzyCandidates: { beforeIndex: number; afterIndex: number; similarity: number }[] = [];
+  beforeItems.forEach((before, beforeIndex) => {
+    if (pairs.has(beforeIndex)) return;
+    afterItems.forEach((after, afterIndex) => {
+      if (usedAfter.has(afterIndex)) return;
+      const similarity = textSimilarity(before.original_item, after.original_item);
+      if (similarity >= FUZZY_MATCH_THRESHOLD) {
+        fuzzyCandidates.push({ beforeIndex, afterIndex, similarity });
+      }
+    });
+  });
+  fuzzyCandidates
+    .sort((a, b) => b.similarity - a.similarity)
+    .forEach(({ beforeIndex, afterIndex, similarity }) => {
+      if (pairs.has(beforeIndex) || usedAfter.has(afterIndex)) return;
+      pairs.set(beforeIndex, { afterIndex, similarity });
+      usedAfter.add(afterIndex);
+    });
+
+  const entries: RunDiffEntry[] = beforeItems.map((before, beforeIndex) => {
+    const pair = pairs.get(beforeIndex);
+    if (!pair) return { kind: "removed", before };
+    const after = afterItems[pair.afterIndex];
+    return {
+      kind: "matched",
+      before,
+      after,
+      similarity: pair.similarity,
+      statusChange: compareStatus(
+        before.assessment.compliance_status,
+        after.assessment.compliance_status
+      ),
+      reasoningChanged:
+        normalizeText(before.assessment.reasoning) !==
+        normalizeText(after.assessment.reasoning),
+    };
+  });
+
+  afterItems.forEach((after, afterIndex) => {
+    if (!usedAfter.has(afterIndex)) entries.push({ kind: "added", after });
+  });
+
+  return entries;
+};
+
+export const summarizeRunDiff = (entries: RunDiffEntry[]): RunDiffSummary =>
+  entries.reduce<RunDiffSummary>(
+    (summary, entry) => {
+      if (entry.kind === "added") summary.added += 1;
+      else if (entry.kind === "removed") summary.removed += 1;
+      else if (entry.statusChange === "improved") summary.improved += 1;
+      else if (entry.statusChange === "regressed") summary.regressed += 1;
+      else if (entry.reasoningChanged) summary.reasoningChanged += 1;
+      else summary.unchanged += 1;
+      return summary;
+    },
+    {
+      improved: 0,
+      regressed: 0,
+      reasoningChanged: 0,
+      added: 0,
+      removed: 0,
+      unchanged: 0,
+    }
+  );
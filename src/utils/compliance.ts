@@ -0,0 +1,62 @@
+import type { Assessment, JudgementItem } from "../types/dify";
+
+export type ComplianceStatus = Assessment["compliance_status"];
+
+export const COMPLIANCE_STATUSES: ComplianceStatus[] = ["○", "△", "×"];
+
+export const COMPLIANCE_STATUS_COLORS: Record<ComplianceStatus, string> = {
+  "○": "#4caf50",
+  "△": "#ff9800",
+  "×": "#f44336",
+};
+
+export const UNCATEGORIZED_LABEL = "未分類";
+
+/**
+ * ワークフローが返したカテゴリ（type）を優先し、なければ分類ルールで推定したカテゴリを使う
+ */
+export const getCategory = (item: JudgementItem): string =>
+  item.assessment.type?.trim() || item.category || UNCATEGORIZED_LABEL;
+
+// カテゴリが分類ルールによる推定かどうか
+export const isInferredCategory = (item: JudgementItem): boolean =>
+  !item.assessment.type?.trim() && !!item.category;
+
+export const countByStatus = (
+  items: JudgementItem[]
+): Record<ComplianceStatus, number> => {
+  const counts: Record<ComplianceStatus, number> = { "○": 0, "△": 0, "×": 0 };
+  items.forEach((item) => {
+    counts[item.assessment.compliance_status] += 1;
+  });
+  return counts;
+};
+
+/**
+ * 適合率(○の割合)を百分率で返す。項目がない場合は0
+ */
+export const complianceRate = (items: JudgementItem[]): number =>
+  items.length === 0
+    ? 0
+    : Math.round((countByStatus(items)["○"] / items.length) * 1000) / 10;
+
+export type CategoryStatusCount = { category: string } & Record<
+  ComplianceStatus,
+  number
+>;
+
+/**
+ * カテゴリごとに適合状況別の件数を数える。カテゴリは最初に現れた順に並ぶ
+ */
+export const countByCategory = (
+  items: JudgementItem[]
+): CategoryStatusCount[] => {
+  const rows = new Map<string, CategoryStatusCount>();
+  items.forEach((item) => {
+    const category = getCategory(item);
+    const row = rows.get(category) ?? { category, "○": 0, "△": 0, "×": 0 };
+    row[item.assessment.compliance_status] += 1;
+    rows.set(category, row);
+  });
+  return [...rows.values()];
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { DifyStreamEvent } from "../types/dify";
+import {
+  applyStreamEvent,
+  createWorkflowProgress,
+  scanJudgementText,
+  type WorkflowProgress,
+} from "./difyStream";
+
+const textChunk = (text: string) =>
+  ({ event: "text_chunk", data: { text } }) as DifyStreamEvent;
+
+const feed = (chunks: string[]): WorkflowProgress =>
+  chunks.reduce(
+    (progress, chunk) => applyStreamEvent(progress, textChunk(chunk)),
+    createWorkflowProgress()
+  );
+
+const item = (n: number, status = "○") =>
+  JSON.stringify({
+    original_item: `要件${n}「{引用}」`,
+    assessment: { compliance_status: status, reasoning: `理由${n} \\"}` },
+  });
+
+describe("scanJudgementText", () => {
+  it("閉じた項目から順に取り出す", () => {
+    const text = `{"judgement": [${item(1)}, ${item(2)}`;
+    const progress = feed([text.slice(0, 20), text.slice(20, 60), text.slice(60)]);
+    expect(progress.judgement.map((j) => j.original_item)).toEqual([
+      "要件1「{引用}」",
+      "要件2「{引用}」",
+    ]);
+  });
+
+  it("1文字ずつ届いても同じ結果になる", () => {
+    const text = "```json\n" + `{"judgement":[${item(1)},${item(2, "×")}]}` + "\n```";
+    const progress = feed([...text]);
+    expect(progress.judgement).toHaveLength(2);
+    expect(progress.judgement[1].assessment.compliance_status).toBe("×");
+    expect(progress.judgementScan.phase).toBe("done");
+  });
+
+  it("配列だけのテキストにも対応する", () => {
+    expect(feed([`[${item(1)}]`]).judgement).toHaveLength(1);
+  });
+
+  it("不正な項目は表示しない", () => {
+    const text = `{"judgement": [{"original_item": "要件"}, {"assessment": 1}, ${item(3)}]}`;
+    const progress = feed([text]);
+    expect(progress.judgement.map((j) => j.original_item)).toEqual([
+      "要件3「{引用}」",
+    ]);
+  });
+
+  it("走査済みの部分は読み直さない", () => {
+    const first = scanJudgementText(`{"judgement": [${item(1)}`, createWorkflowProgress().judgementScan);
+    const text = `{"judgement": [${item(1)}, ${item(2)}`;
+    const second = scanJudgementText(text, first.state);
+    expect(first.items).toHaveLength(1);
+    expect(second.items.map((j) => j.original_item)).toEqual(["要件2「{引用}」"]);
+    expect(second.state.offset).toBe(text.length);
+  });
+});
@@ -0,0 +1,243 @@
+import type {
+  DifyStreamEvent,
+  DifyWorkflowResult,
+  JudgementItem,
+} from "../types/dify";
+import {
+  validateJudgementItem,
+  type ValidationIssue,
+} from "./validateWorkflowResult";
+
+// テキストチャンクから判定項目を逐次取り出すための走査状態
+export interface JudgementScanState {
+  // 走査済みの文字数
+  offset: number;
+  // judgement配列の中にいるか。配列の終わりに達したら"done"
+  phase: "before" | "array" | "done";
+  depth: number;
+  inString: boolean;
+  escaped: boolean;
+  // 走査中の判定項目オブジェクトの開始位置
+  objectStart: number;
+  // 取り出した判定項目の数（不正な項目を含む）
+  itemCount: number;
+}
+
+export interface WorkflowProgress {
+  taskId?: string;
+  workflowRunId?: string;
+  currentNode?: string;
+  completedSteps: number;
+  startedAt: number;
+  text: string;
+  judgementScan: JudgementScanState;
+  judgement: JudgementItem[];
+  finished?: DifyWorkflowResult;
+}
+
+export const createWorkflowProgress = (): WorkflowProgress => ({
+  completedSteps: 0,
+  startedAt: Date.now(),
+  text: "",
+  judgementScan: {
+    offset: 0,
+    phase: "before",
+    depth: 0,
+    inString: false,
+    escaped: false,
+    objectStart: -1,
+    itemCount: 0,
+  },
+  judgement: [],
+});
+
+/**
+ * `data: {...}` 形式のSSEストリームを読み取り、イベントを順に返す
+ */
+export async function* readDifyStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<DifyStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parseBlock = (block: string): DifyStreamEvent | null => {
+    const data = block
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trim())
+      .join("\n");
+    if (!data) return null;
+    try {
+      return JSON.parse(data) as DifyStreamEvent;
+    } catch (parseError) {
+      console.error("Failed to parse stream event:", data, parseError);
+      return null;
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+      let separatorIndex = buffer.indexOf("\n\n");
+      while (separatorIndex !== -1) {
+        const event = parseBlock(buffer.slice(0, separatorIndex));
+        buffer = buffer.slice(separatorIndex + 2);
+        if (event) yield event;
+        separatorIndex = buffer.indexOf("\n\n");
+      }
+    }
+
+    const rest = parseBlock(buffer + decoder.decode());
+    if (rest) yield rest;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// 検証を通った判定項目だけを残す。途中の不正な項目で進捗表示が壊れないようにする
+const validateItems = (items: unknown[], startIndex = 0): JudgementItem[] => {
+  const issues: ValidationIssue[] = [];
+  return items.flatMap((item, i) => {
+    const validated = validateJudgementItem(item, startIndex + i, issues);
+    return validated ? [validated] : [];
+  });
+};
+
+// ノード出力から判定項目の配列を取り出す
+const extractJudgement = (value: unknown): JudgementItem[] | null => {
+  if (typeof value === "string") {
+    try {
+      return extractJudgement(JSON.parse(value));
+    } catch {
+      return null;
+    }
+  }
+  if (Array.isArray(value)) return validateItems(value);
+  if (value && typeof value === "object" && "judgement" in value) {
+    return extractJudgement((value as { judgement: unknown }).judgement);
+  }
+  return null;
+};
+
+// "judgement": [ の開始か、テキスト全体が配列（コードブロック内を含む）の場合の開始
+const JUDGEMENT_KEY_PATTERN = /"judgement"\s*:\s*\[/;
+const BARE_ARRAY_PATTERN = /^\s*(?:```(?:json)?\s*)?\[/;
+// チャンクの境目でキーが分割されても見つけられるよう、前回の走査位置から少し戻って探す
+const KEY_LOOKBEHIND = 32;
+
+/**
+ * 累積テキストのうち未走査の部分だけを読み、閉じた判定項目オブジェクトを取り出す
+ * 全文を毎回パースしないため、項目数が多くても走査は線形で済む
+ */
+export const scanJudgementText = (
+  text: string,
+  state: JudgementScanState
+): { state: JudgementScanState; items: JudgementItem[] } => {
+  const next = { ...state };
+  const parsed: unknown[] = [];
+  let i = next.offset;
+
+  if (next.phase === "before") {
+    const from = Math.max(0, next.offset - KEY_LOOKBEHIND);
+    const keyMatch = JUDGEMENT_KEY_PATTERN.exec(text.slice(from));
+    const bareMatch = from === 0 ? BARE_ARRAY_PATTERN.exec(text) : null;
+    const match = keyMatch
+      ? { end: from + keyMatch.index + keyMatch[0].length }
+      : bareMatch
+        ? { end: bareMatch[0].length }
+        : null;
+    if (!match) {
+      next.offset = text.length;
+      return { state: next, items: [] };
+    }
+    next.phase = "array";
+    i = match.end;
+  }
+
+  for (; next.phase === "array" && i < text.length; i++) {
+    const char = text[i];
+    if (next.inString) {
+      if (next.escaped) next.escaped = false;
+      else if (char === "\\") next.escaped = true;
+      else if (char === '"') next.inString = false;
+      continue;
+    }
+    if (char === '"') {
+      next.inString = true;
+    } else if (char === "{") {
+      if (next.depth === 0) next.objectStart = i;
+      next.depth++;
+    } else if (char === "}") {
+      next.depth--;
+      if (next.depth === 0) {
+        try {
+          parsed.push(JSON.parse(text.slice(next.objectStart, i + 1)));
+        } catch {
+          parsed.push(null);
+        }
+      }
+    } else if (char === "]" && next.depth === 0) {
+      next.phase = "done";
+    }
+  }
+  next.offset = Math.max(i, next.offset);
+
+  const items = validateItems(parsed, next.itemCount);
+  next.itemCount += parsed.length;
+  return { state: next, items };
+};
+
+/**
+ * SSEイベントを受け取って進捗状態を更新する
+ */
+export const applyStreamEvent = (
+  progress: WorkflowProgress,
+  event: DifyStreamEvent
+): WorkflowProgress => {
+  switch (event.event) {
+    case "workflow_started":
+      return {
+        ...progress,
+        taskId: event.task_id,
+        workflowRunId: event.workflow_run_id,
+        startedAt: event.data.created_at * 1000,
+      };
+    case "node_started":
+      return { ...progress, currentNode: event.data.title };
+    case "node_finished": {
+      const judgement = extractJudgement(event.data.outputs);
+      return {
+        ...progress,
+        completedSteps: progress.completedSteps + 1,
+        judgement:
+          judgement && judgement.length > 0 ? judgement : progress.judgement,
+      };
+    }
+    case "text_chunk": {
+      const text = progress.text + event.data.text;
+      const { state, items } = scanJudgementText(text, progress.judgementScan);
+      return {
+        ...progress,
+        text,
+        judgementScan: state,
+        judgement:
+          items.length > 0 ? [...progress.judgement, ...items] : progress.judgement,
+      };
+    }
+    case "workflow_finished":
+      return {
+        ...progress,
+        currentNode: undefined,
+        completedSteps: event.data.total_steps ?? progress.completedSteps,
+        judgement:
+          extractJudgement(event.data.outputs?.judgement) ?? progress.judgement,
+        finished: event.data,
+      };
+    default:
+      return progress;
+  }
+};
@@ -0,0 +1,65 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import type { JudgementItem } from "../types/dify";
+import {
+  buildExportRows,
+  DEFAULT_EXPORT_TEMPLATE,
+  neutralizeFormula,
+  toCsvBlob,
+  toXlsxBlob,
+} from "./exportJudgement";
+
+const items: JudgementItem[] = [
+  {
+    original_item: '=HYPERLINK("http://example.com","詳細")',
+    assessment: {
+      compliance_status: "○",
+      reasoning: "+1 対応済み",
+      reference_source: "@SUM(A1:A2)",
+      alternative_solution: "-2+3",
+    },
+  },
+  {
+    original_item: "\t=1+1",
+    assessment: { compliance_status: "×", reasoning: "対応不可 = 未実装" },
+  },
+];
+
+describe("neutralizeFormula", () => {
+  it.each(["=1+1", "+1", "-1", "@A1", "\tx", "\rx"])(
+    "%j の先頭に ' を付ける",
+    (value) => {
+      expect(neutralizeFormula(value)).toBe(`'${value}`);
+    }
+  );
+
+  it("数値と途中に記号を含む文字列はそのまま", () => {
+    expect(neutralizeFormula(-1)).toBe(-1);
+    expect(neutralizeFormula("対応不可 = 未実装")).toBe("対応不可 = 未実装");
+  });
+});
+
+describe("エクスポート", () => {
+  const rows = buildExportRows(items, DEFAULT_EXPORT_TEMPLATE);
+
+  it("CSVでは数式として解釈される値を無害化する", async () => {
+    const csv = await toCsvBlob(rows).text();
+    const lines = csv.replace(/^\uFEFF/, "").split("\r\n");
+    expect(lines[1]).toBe(
+      `1,"'=HYPERLINK(""http://example.com"",""詳細"")",○,'+1 対応済み,'@SUM(A1:A2),'-2+3`
+    );
+    expect(lines[2].startsWith("2,'\t=1+1,×,対応不可 = 未実装")).toBe(true);
+  });
+
+  it("XLSXでは元の文字列のまま、数式を持たない文字列セルとして出力する", async () => {
+    const buffer = await toXlsxBlob(rows, DEFAULT_EXPORT_TEMPLATE).arrayBuffer();
+    const workbook = XLSX.read(buffer, { type: "array", cellFormula: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const cells = Object.keys(sheet)
+      .filter((key) => !key.startsWith("!"))
+      .map((key) => sheet[key] as XLSX.CellObject);
+    expect(cells.every((cell) => cell.f === undefined)).toBe(true);
+    expect(sheet.B2).toMatchObject({ t: "s", v: items[0].original_item });
+    expect(sheet.D2).toMatchObject({ t: "s", v: "+1 対応済み" });
+  });
+});
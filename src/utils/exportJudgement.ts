@@ -0,0 +1,194 @@
+import * as XLSX from "xlsx";
+import type { Assessment, JudgementItem } from "../types/dify";
+import { PRIORITY_LABELS, getPriority } from "./fitScore";
+import { applyReview, getReviewState, REVIEW_STATE_LABELS } from "./review";
+
+export type ExportFormat = "xlsx" | "csv";
+
+export type ExportField =
+  | "index"
+  | "row_number"
+  | "original_item"
+  | "compliance_status"
+  | "reasoning"
+  | "reference_source"
+  | "alternative_solution"
+  | "type"
+  | "ai_compliance_status"
+  | "review_status"
+  | "assignee"
+  | "priority"
+  | "blank";
+
+export interface ExportColumn {
+  field: ExportField;
+  header: string;
+}
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  sheetName: string;
+  columns: ExportColumn[];
+  // 発行元の様式に合わせて ○/△/× を別の表記に置き換える場合に指定
+  statusLabels?: Partial<Record<Assessment["compliance_status"], string>>;
+}
+
+export const EXPORT_FIELD_LABELS: Record<ExportField, string> = {
+  index: "No.",
+  row_number: "元の行番号",
+  original_item: "要件",
+  compliance_status: "対応可否",
+  reasoning: "判定理由",
+  reference_source: "参照元",
+  alternative_solution: "代替案",
+  type: "カテゴリ",
+  ai_compliance_status: "AIの判定",
+  review_status: "確認状況",
+  assignee: "担当者",
+  priority: "重要度",
+  blank: "(空欄)",
+};
+
+export const DEFAULT_EXPORT_TEMPLATE: ExportTemplate = {
+  id: "default",
+  name: "標準",
+  sheetName: "適合性判定",
+  columns: [
+    { field: "index", header: "No." },
+    { field: "original_item", header: "要件" },
+    { field: "compliance_status", header: "対応可否" },
+    { field: "reasoning", header: "判定理由" },
+    { field: "reference_source", header: "参照元" },
+    { field: "alternative_solution", header: "代替案" },
+  ],
+};
+
+const getFieldValue = (
+  item: JudgementItem,
+  index: number,
+  field: ExportField,
+  template: ExportTemplate
+): string | number => {
+  // 担当者レビューで上書きされた値を優先する
+  const assessment = applyReview(item).assessment;
+  switch (field) {
+    case "index":
+      return index + 1;
+    case "row_number":
+      return item.row_number ?? "";
+    case "original_item":
+      return item.original_item;
+    case "compliance_status":
+      return (
+        template.statusLabels?.[assessment.compliance_status] ||
+        assessment.compliance_status
+      );
+    case "reasoning":
+      return assessment.reasoning;
+    case "reference_source":
+      return assessment.reference_source ?? "";
+    case "alternative_solution":
+      return assessment.alternative_solution ?? "";
+    case "type":
+      return assessment.type?.trim() || item.category || "";
+    case "ai_compliance_status":
+      return item.assessment.compliance_status;
+    case "review_status":
+      return REVIEW_STATE_LABELS[getReviewState(item)];
+    case "assignee":
+      return item.thread?.assignee_name ?? "";
+    case "priority":
+      return PRIORITY_LABELS[getPriority(item)];
+    case "blank":
+      return "";
+  }
+};
+
+// 表計算ソフトが数式として解釈する先頭文字
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * 数式として解釈される文字列の先頭に ' を付け、文字列として扱わせる
+ * 要件本文や判定理由は発注元の資料やLLMの出力に由来するため、CSV/数式インジェクションを防ぐ
+ */
+export const neutralizeFormula = (value: string | number): string | number =>
+  typeof value === "string" && FORMULA_PREFIX_PATTERN.test(value)
+    ? `'${value}`
+    : value;
+
+/**
+ * テンプレートの列定義に従って、ヘッダー行を含む2次元配列を組み立てる
+ */
+export const buildExportRows = (
+  items: JudgementItem[],
+  template: ExportTemplate
+): (string | number)[][] => [
+  template.columns.map((column) => column.header),
+  ...items.map((item, index) =>
+    template.columns.map((column) =>
+      getFieldValue(item, index, column.field, template)
+    )
+  ),
+];
+
+const escapeCsvValue = (value: string | number): string => {
+  const text = String(neutralizeFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Excelで文字化けしないようBOM付きUTF-8のCSVを生成する
+ * CSVを開くと値が数式として評価されるため、各値を無害化してから書き出す
+ */
+export const toCsvBlob = (rows: (string | number)[][]): Blob => {
+  const csv = rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+  return new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" });
+};
+
+export const toXlsxBlob = (
+  rows: (string | number)[][],
+  template: ExportTemplate
+): Blob => {
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+  worksheet["!cols"] = template.columns.map((column) => ({
+    wch: column.field === "index" || column.field === "compliance_status" ? 8 : 40,
+  }));
+  const workbook = XLSX.utils.book_new();
+  // シート名は31文字まで
+  XLSX.utils.book_append_sheet(
+    workbook,
+    worksheet,
+    (template.sheetName || "Sheet1").slice(0, 31)
+  );
+  const buffer = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+  return new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * 判定結果をテンプレートに従ってXLSXまたはCSVでダウンロードする
+ */
+export const exportJudgement = (
+  items: JudgementItem[],
+  template: ExportTemplate,
+  format: ExportFormat,
+  baseFileName: string
+) => {
+  const rows = buildExportRows(items, template);
+  const blob = format === "csv" ? toCsvBlob(rows) : toXlsxBlob(rows, template);
+  const stem = baseFileName.replace(/\.[^.]+$/, "") || "judgement";
+  downloadBlob(blob, `${stem}_適合性判定.${format}`);
+};
@@ -0,0 +1,122 @@
+import type { DifyFileInput } from "../types/dify";
+import { formatFileSize } from "./format";
+
+// このアプリがワークフローに渡すファイルの入力タイプ
+export type DifyFileType = Extract<DifyFileInput["type"], "document" | "image">;
+
+export type FileGroup = "pdf" | "word" | "excel" | "powerpoint" | "text" | "image";
+
+interface FileFormat {
+  extension: string;
+  group: FileGroup;
+  // ファイル先頭のバイト列から判定した種類がこれと一致する必要がある
+  signature: FileSignature;
+}
+
+type FileSignature = "pdf" | "zip" | "text" | "png" | "jpeg" | "gif" | "webp";
+
+const MB = 1024 * 1024;
+
+// Dify の既定のアップロード上限（ドキュメント15MB・画像10MB）に合わせる
+export const FILE_SIZE_LIMITS: Record<DifyFileType, number> = {
+  document: 15 * MB,
+  image: 10 * MB,
+};
+
+export const FILE_FORMATS: FileFormat[] = [
+  { extension: "pdf", group: "pdf", signature: "pdf" },
+  { extension: "docx", group: "word", signature: "zip" },
+  { extension: "xlsx", group: "excel", signature: "zip" },
+  { extension: "pptx", group: "powerpoint", signature: "zip" },
+  { extension: "txt", group: "text", signature: "text" },
+  { extension: "md", group: "text", signature: "text" },
+  { extension: "html", group: "text", signature: "text" },
+  { extension: "csv", group: "text", signature: "text" },
+  { extension: "png", group: "image", signature: "png" },
+  { extension: "jpg", group: "image", signature: "jpeg" },
+  { extension: "jpeg", group: "image", signature: "jpeg" },
+  { extension: "webp", group: "image", signature: "webp" },
+  { extension: "gif", group: "image", signature: "gif" },
+];
+
+export const FILE_GROUP_LABELS: Record<FileGroup, string> = {
+  pdf: "PDF",
+  word: "Word",
+  excel: "Excel",
+  powerpoint: "PowerPoint",
+  text: "テキスト",
+  image: "画像",
+};
+
+export const SUPPORTED_EXTENSIONS = FILE_FORMATS.map((format) => format.extension);
+
+export const getExtension = (fileName: string): string =>
+  fileName.includes(".") ? (fileName.split(".").pop() ?? "").toLowerCase() : "";
+
+export const getFileFormat = (fileName: string): FileFormat | undefined =>
+  FILE_FORMATS.find((format) => format.extension === getExtension(fileName));
+
+export const getFileGroup = (
+  extension: string,
+  mimeType = ""
+): FileGroup | undefined =>
+  FILE_FORMATS.find((format) => format.extension === extension.toLowerCase())
+    ?.group ?? (mimeType.startsWith("image/") ? "image" : undefined);
+
+/**
+ * アップロード済みファイルをワークフローに渡す際の Dify の入力タイプを決める
+ */
+export const getDifyFileType = (
+  extension: string,
+  mimeType = ""
+): DifyFileType =>
+  getFileGroup(extension, mimeType) === "image" ? "image" : "document";
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+/**
+ * ファイル先頭のバイト列から実際の形式を推定する
+ */
+export const sniffFileSignature = async (
+  file: File
+): Promise<FileSignature | null> => {
+  const bytes = new Uint8Array(await file.slice(0, 4096).arrayBuffer());
+  if (startsWith(bytes, ascii("%PDF-"))) return "pdf";
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return "zip";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return "png";
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(bytes, ascii("GIF8"))) return "gif";
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) {
+    return "webp";
+  }
+  // NUL を含まなければテキストとみなす（Shift_JIS のCSVも受け付ける）
+  if (bytes.length > 0 && !bytes.includes(0)) return "text";
+  return null;
+};
+
+/**
+ * 拡張子・ファイルの中身・サイズを検証し、問題があればエラーメッセージを返す
+ */
+export const validateUploadFile = async (file: File): Promise<string | null> => {
+  const format = getFileFormat(file.name);
+  if (!format) {
+    return `サポートされていないファイル形式です。対応形式: ${SUPPORTED_EXTENSIONS.join(", ")}`;
+  }
+  if (file.size === 0) {
+    return "空のファイルはアップロードできません";
+  }
+
+  const type = getDifyFileType(format.extension);
+  if (file.size > FILE_SIZE_LIMITS[type]) {
+    return `ファイルサイズが上限（${formatFileSize(FILE_SIZE_LIMITS[type])}）を超えています: ${formatFileSize(file.size)}`;
+  }
+
+  const signature = await sniffFileSignature(file);
+  if (signature !== format.signature) {
+    return `ファイルの内容が拡張子（.${format.extension}）と一致しません。ファイルが破損しているか、拡張子が誤っている可能性があります`;
+  }
+  return null;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { detectPriority } from "./fitScore";
+
+describe("detectPriority", () => {
+  it("文中の「任意」「推奨」「オプション」「提案を求める」では必須要件を任意とみなさない", () => {
+    expect(detectPriority("任意の時点で出欠状況を確認できること")).toBe("mandatory");
+    expect(detectPriority("任意の端末から保護者がログインできること。")).toBe("mandatory");
+    expect(detectPriority("推奨環境として示すブラウザで動作すること")).toBe("mandatory");
+    expect(detectPriority("メーカーが推奨する構成で冗長化すること")).toBe("mandatory");
+    expect(detectPriority("オプション料金なしで提供すること")).toBe("mandatory");
+    expect(detectPriority("提案を求める事項にはすべて回答すること。")).toBe("mandatory");
+  });
+
+  it("括弧書きや文末の「任意」「推奨」「オプション」「提案を求める」は任意とみなす", () => {
+    expect(detectPriority("（任意）多言語表示に対応すること")).toBe("optional");
+    expect(detectPriority("【推奨】シングルサインオンに対応すること")).toBe("optional");
+    expect(detectPriority("帳票のPDF出力は任意とする。")).toBe("optional");
+    expect(detectPriority("二要素認証に対応することを推奨する")).toBe("optional");
+    expect(detectPriority("[オプション]音声読み上げに対応すること")).toBe("optional");
+    expect(detectPriority("多言語対応はオプションとする。")).toBe("optional");
+    expect(detectPriority("運用保守の体制について提案を求める。")).toBe("optional");
+  });
+
+  it("希望を表す表現は「〜こと」より優先する", () => {
+    expect(detectPriority("スマートフォンアプリを提供できることが望ましい")).toBe("optional");
+    expect(detectPriority("データは国内で保管しなければならない")).toBe("mandatory");
+    expect(detectPriority("操作マニュアル")).toBe("standard");
+  });
+});
@@ -0,0 +1,153 @@
+import type { JudgementItem, RequirementPriority } from "../types/dify";
+import type { ComplianceStatus } from "./compliance";
+
+export const REQUIREMENT_PRIORITIES: RequirementPriority[] = [
+  "mandatory",
+  "standard",
+  "optional",
+];
+
+export const PRIORITY_LABELS: Record<RequirementPriority, string> = {
+  mandatory: "必須",
+  standard: "通常",
+  optional: "任意",
+};
+
+// 加重適合スコアでの重み
+export const PRIORITY_WEIGHTS: Record<RequirementPriority, number> = {
+  mandatory: 3,
+  standard: 2,
+  optional: 1,
+};
+
+// △は代替案で対応できる見込みがあるため半分として数える
+export const COMPLIANCE_SCORES: Record<ComplianceStatus, number> = {
+  "○": 1,
+  "△": 0.5,
+  "×": 0,
+};
+
+export type FitRecommendation = "go" | "conditional" | "no_go";
+
+export const FIT_RECOMMENDATION_LABELS: Record<FitRecommendation, string> = {
+  go: "Go（入札推奨）",
+  conditional: "要検討",
+  no_go: "No-Go（見送り推奨）",
+};
+
+// 必須要件の×が1件もない場合に、スコアがこの値以上ならGo・要検討とする
+export const FIT_SCORE_THRESHOLDS = {
+  go: 80,
+  conditional: 60,
+};
+
+// 希望・加点を表す表現は「〜こと」より優先して任意とみなす。
+// 「任意」「推奨」「オプション」「提案を求める」は「任意の時点で」「オプション料金なしで」のように
+// 必須要件の中にも現れるため、「（任意）」のような括弧書きか文末の「任意とする」などだけを対象にする
+const OPTIONAL_PATTERN =
+  /[(【[](任意|推奨|オプション)[)】\]]|(任意|推奨|オプション)(とする|です|である|する|します)?[。.]?\s*$|提案を求め(る|ます)[。.]?\s*$|望ましい|尚可|なお可|できれば|可能であれば|可能な限り|加点/;
+const MANDATORY_PATTERN =
+  /必須|必ず|なければならない|ねばならない|不可欠|ものとする|こと[。.]?\s*$/;
+
+/**
+ * 要件の文言から重要度を推定する
+ */
+export const detectPriority = (requirement: string): RequirementPriority => {
+  const text = requirement.normalize("NFKC").trim();
+  if (OPTIONAL_PATTERN.test(text)) return "optional";
+  if (MANDATORY_PATTERN.test(text)) return "mandatory";
+  return "standard";
+};
+
+export const getPriority = (item: JudgementItem): RequirementPriority =>
+  item.priority ?? detectPriority(item.original_item);
+
+/**
+ * 担当者が設定した重要度を判定項目に紐づける
+ */
+export const attachPriorities = (
+  items: JudgementItem[],
+  priorities: Record<number, RequirementPriority> | undefined
+): JudgementItem[] =>
+  priorities
+    ? items.map((item, index) =>
+        priorities[index] ? { ...item, priority: priorities[index] } : item
+      )
+    : items;
+
+export interface PriorityScore {
+  count: number;
+  // その重要度の項目だけで求めた適合スコア（百分率）
+  score: number;
+}
+
+export interface FitScoreSummary {
+  // 重要度で重み付けした適合スコア（百分率）
+  score: number;
+  recommendation: FitRecommendation;
+  // 必須要件で×と判定された項目のインデックス
+  blockingIndexes: number[];
+  byPriority: Record<RequirementPriority, PriorityScore>;
+  reasons: string[];
+}
+
+const toPercent = (value: number) => Math.round(value * 1000) / 10;
+
+/**
+ * 加重適合スコアを求め、入札可否の推奨を判定する
+ * レビューを反映した判定項目を渡すこと
+ */
+export const computeFitScore = (items: JudgementItem[]): FitScoreSummary => {
+  let weighted = 0;
+  let totalWeight = 0;
+  const sums = { mandatory: 0, standard: 0, optional: 0 };
+  const byPriority: Record<RequirementPriority, PriorityScore> = {
+    mandatory: { count: 0, score: 0 },
+    standard: { count: 0, score: 0 },
+    optional: { count: 0, score: 0 },
+  };
+  const blockingIndexes: number[] = [];
+
+  items.forEach((item, index) => {
+    const priority = getPriority(item);
+    const status = item.assessment.compliance_status;
+    const score = COMPLIANCE_SCORES[status];
+    weighted += score * PRIORITY_WEIGHTS[priority];
+    totalWeight += PRIORITY_WEIGHTS[priority];
+    sums[priority] += score;
+    byPriority[priority].count++;
+    if (priority === "mandatory" && status === "×") blockingIndexes.push(index);
+  });
+  for (const priority of REQUIREMENT_PRIORITIES) {
+    const { count } = byPriority[priority];
+    byPriority[priority].score = count > 0 ? toPercent(sums[priority] / count) : 0;
+  }
+
+  const score = totalWeight > 0 ? toPercent(weighted / totalWeight) : 0;
+  const reasons: string[] = [];
+  let recommendation: FitRecommendation;
+  if (blockingIndexes.length > 0) {
+    recommendation = "no_go";
+    reasons.push(`必須要件のうち${blockingIndexes.length}件が「×」です`);
+  } else if (score >= FIT_SCORE_THRESHOLDS.go) {
+    recommendation = "go";
+    reasons.push(`必須要件に「×」がなく、加重適合スコアが${FIT_SCORE_THRESHOLDS.go}%以上です`);
+  } else if (score >= FIT_SCORE_THRESHOLDS.conditional) {
+    recommendation = "conditional";
+    reasons.push(
+      `加重適合スコアが${FIT_SCORE_THRESHOLDS.go}%未満です。「△」の項目の代替案を確認してください`
+    );
+  } else {
+    recommendation = "no_go";
+    reasons.push(`加重適合スコアが${FIT_SCORE_THRESHOLDS.conditional}%未満です`);
+  }
+  const partialMandatory = items.filter(
+    (item) =>
+      getPriority(item) === "mandatory" && item.assessment.compliance_status === "△"
+  ).length;
+  if (partialMandatory > 0) {
+    reasons.push(`必須要件のうち${partialMandatory}件は代替案での対応（△）です`);
+  }
+
+  return { score, recommendation, blockingIndexes, byPriority, reasons };
+};
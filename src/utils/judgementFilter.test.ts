@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_JUDGEMENT_FILTER,
+  parseJudgementFilter,
+  serializeJudgementFilter,
+} from "./judgementFilter";
+
+describe("serializeJudgementFilter / parseJudgementFilter", () => {
+  it("カンマを含むカテゴリもURLを経由して元に戻る", () => {
+    const filter = {
+      ...DEFAULT_JUDGEMENT_FILTER,
+      statuses: ["○" as const, "×" as const],
+      categories: ["帳票, 出力", "セキュリティ"],
+    };
+    const search = serializeJudgementFilter(filter, "?history=abc");
+    expect(new URLSearchParams(search).get("history")).toBe("abc");
+    expect(parseJudgementFilter(search)).toEqual(filter);
+  });
+
+  it("既定の条件ではフィルターのパラメータを残さない", () => {
+    expect(
+      serializeJudgementFilter(DEFAULT_JUDGEMENT_FILTER, "?status=○&category=a")
+    ).toBe("");
+  });
+});
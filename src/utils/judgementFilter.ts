@@ -0,0 +1,250 @@
+import type { JudgementItem, ReviewState } from "../types/dify";
+import {
+  COMPLIANCE_STATUSES,
+  getCategory,
+  type ComplianceStatus,
+} from "./compliance";
+import { getReviewState, isOverridden, REVIEW_STATES } from "./review";
+
+export type AlternativeFilter = "all" | "with" | "without";
+export type ReviewFilter =
+  | "all"
+  | "confirmed"
+  | "unconfirmed"
+  | "overridden"
+  | "required";
+export type AssigneeFilter = "all" | "mine" | "unassigned";
+export type ReviewStateFilter = ReviewState | "all";
+export type JudgementSort = "model" | "status" | "category" | "row";
+
+export interface JudgementFilterState {
+  statuses: ComplianceStatus[];
+  categories: string[];
+  alternative: AlternativeFilter;
+  review: ReviewFilter;
+  assignee: AssigneeFilter;
+  reviewState: ReviewStateFilter;
+  query: string;
+  sort: JudgementSort;
+}
+
+export interface JudgementEntry {
+  // AIの判定とレビューを保持した元の項目
+  item: JudgementItem;
+  // レビューを反映した項目
+  reviewed: JudgementItem;
+  index: number;
+  // 参照元を原文で確認できず、担当者の確認が必要か
+  requiresReview?: boolean;
+  // このブラウザのメンバーが担当者か
+  assignedToMe?: boolean;
+}
+
+export const DEFAULT_JUDGEMENT_FILTER: JudgementFilterState = {
+  statuses: [],
+  categories: [],
+  alternative: "all",
+  review: "all",
+  assignee: "all",
+  reviewState: "all",
+  query: "",
+  sort: "model",
+};
+
+export const JUDGEMENT_SORT_LABELS: Record<JudgementSort, string> = {
+  model: "出力順",
+  status: "適合状況（×→○）",
+  category: "カテゴリ",
+  row: "元の行番号",
+};
+
+const STATUS_ORDER: Record<ComplianceStatus, number> = { "×": 0, "△": 1, "○": 2 };
+
+export const isFilterActive = (filter: JudgementFilterState): boolean =>
+  filter.statuses.length > 0 ||
+  filter.categories.length > 0 ||
+  filter.alternative !== "all" ||
+  filter.review !== "all" ||
+  filter.assignee !== "all" ||
+  filter.reviewState !== "all" ||
+  filter.query.trim() !== "";
+
+/**
+ * 検索語を空白区切りで分割する。すべての語を含む項目がヒットする
+ */
+export const splitQuery = (query: string): string[] =>
+  query
+    .normalize("NFKC")
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean);
+
+const matchesQuery = (entry: JudgementEntry, terms: string[]): boolean => {
+  if (terms.length === 0) return true;
+  const haystack = [
+    entry.item.original_item,
+    entry.item.assessment.reasoning,
+    entry.reviewed.assessment.reasoning,
+    entry.item.assessment.reference_source ?? "",
+  ]
+    .join("\n")
+    .normalize("NFKC")
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+};
+
+const matchesReview = (entry: JudgementEntry, review: ReviewFilter): boolean => {
+  const { item } = entry;
+  switch (review) {
+    case "confirmed":
+      return !!item.review?.confirmed;
+    case "unconfirmed":
+      return !item.review?.confirmed;
+    case "overridden":
+      return isOverridden(item);
+    case "required":
+      return !!entry.requiresReview;
+    default:
+      return true;
+  }
+};
+
+const matchesAssignee = (
+  entry: JudgementEntry,
+  assignee: AssigneeFilter
+): boolean => {
+  switch (assignee) {
+    case "mine":
+      return !!entry.assignedToMe;
+    case "unassigned":
+      return !entry.item.thread?.assignee_id;
+    default:
+      return true;
+  }
+};
+
+export const filterAndSortJudgement = (
+  entries: JudgementEntry[],
+  filter: JudgementFilterState
+): JudgementEntry[] => {
+  const terms = splitQuery(filter.query);
+  const filtered = entries.filter((entry) => {
+    const { assessment } = entry.reviewed;
+    if (
+      filter.statuses.length > 0 &&
+      !filter.statuses.includes(assessment.compliance_status)
+    ) {
+      return false;
+    }
+    if (
+      filter.categories.length > 0 &&
+      !filter.categories.includes(getCategory(entry.reviewed))
+    ) {
+      return false;
+    }
+    const hasAlternative = !!assessment.alternative_solution;
+    if (filter.alternative === "with" && !hasAlternative) return false;
+    if (filter.alternative === "without" && hasAlternative) return false;
+    if (!matchesReview(entry, filter.review)) return false;
+    if (!matchesAssignee(entry, filter.assignee)) return false;
+    if (
+      filter.reviewState !== "all" &&
+      getReviewState(entry.item) !== filter.reviewState
+    ) {
+      return false;
+    }
+    return matchesQuery(entry, terms);
+  });
+
+  const compare = (a: JudgementEntry, b: JudgementEntry): number => {
+    switch (filter.sort) {
+      case "status":
+        return (
+          STATUS_ORDER[a.reviewed.assessment.compliance_status] -
+          STATUS_ORDER[b.reviewed.assessment.compliance_status]
+        );
+      case "category":
+        return getCategory(a.reviewed).localeCompare(getCategory(b.reviewed), "ja");
+      case "row":
+        return (
+          (a.item.row_number ?? Number.MAX_SAFE_INTEGER) -
+          (b.item.row_number ?? Number.MAX_SAFE_INTEGER)
+        );
+      default:
+        return 0;
+    }
+  };
+
+  // 同順位の場合は出力順を保つ
+  return [...filtered].sort((a, b) => compare(a, b) || a.index - b.index);
+};
+
+const PARAM_KEYS = {
+  statuses: "status",
+  categories: "category",
+  alternative: "alt",
+  review: "review",
+  assignee: "assignee",
+  reviewState: "state",
+  query: "q",
+  sort: "sort",
+} as const;
+
+export const parseJudgementFilter = (search: string): JudgementFilterState => {
+  const params = new URLSearchParams(search);
+  // カテゴリは自由入力のためカンマを含みうる。区切り文字を使わずパラメータを繰り返す
+  const list = (key: string) => params.getAll(key).filter(Boolean);
+  const oneOf = <T extends string>(key: string, values: T[], fallback: T): T => {
+    const value = params.get(key);
+    return values.find((v) => v === value) ?? fallback;
+  };
+
+  return {
+    statuses: list(PARAM_KEYS.statuses).filter((s): s is ComplianceStatus =>
+      COMPLIANCE_STATUSES.includes(s as ComplianceStatus)
+    ),
+    categories: list(PARAM_KEYS.categories),
+    alternative: oneOf(PARAM_KEYS.alternative, ["all", "with", "without"], "all"),
+    review: oneOf(
+      PARAM_KEYS.review,
+      ["all", "confirmed", "unconfirmed", "overridden", "required"],
+      "all"
+    ),
+    assignee: oneOf(PARAM_KEYS.assignee, ["all", "mine", "unassigned"], "all"),
+    reviewState: oneOf<ReviewStateFilter>(
+      PARAM_KEYS.reviewState,
+      ["all", ...REVIEW_STATES],
+      "all"
+    ),
+    query: params.get(PARAM_KEYS.query) ?? "",
+    sort: oneOf(PARAM_KEYS.sort, ["model", "status", "category", "row"], "model"),
+  };
+};
+
+/**
+ * 既存のクエリパラメータを保ったまま、フィルター条件をURLのクエリ文字列に反映する
+ */
+export const serializeJudgementFilter = (
+  filter: JudgementFilterState,
+  search: string
+): string => {
+  const params = new URLSearchParams(search);
+  const set = (key: string, value: string, defaultValue = "") => {
+    if (value && value !== defaultValue) params.set(key, value);
+    else params.delete(key);
+  };
+  const setList = (key: string, values: string[]) => {
+    params.delete(key);
+    values.forEach((value) => params.append(key, value));
+  };
+  setList(PARAM_KEYS.statuses, filter.statuses);
+  setList(PARAM_KEYS.categories, filter.categories);
+  set(PARAM_KEYS.alternative, filter.alternative, "all");
+  set(PARAM_KEYS.review, filter.review, "all");
+  set(PARAM_KEYS.assignee, filter.assignee, "all");
+  set(PARAM_KEYS.reviewState, filter.reviewState, "all");
+  set(PARAM_KEYS.query, filter.query);
+  set(PARAM_KEYS.sort, filter.sort, "model");
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
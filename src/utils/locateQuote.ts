@@ -0,0 +1,128 @@
+import { countBigrams, normalizeWithOffsets, type NormalizedText } from "./text";
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+}
+
+export interface QuoteLocation {
+  pageNumber: number;
+  // ページテキスト内での位置
+  start: number;
+  end: number;
+}
+
+export interface QuoteMatch extends QuoteLocation {
+  // 一致度(0〜1)。完全一致は1
+  score: number;
+}
+
+// 同じページを何度も照合するため、正規化結果をページごとに使い回す
+const normalizedPages = new WeakMap<PageText, NormalizedText>();
+
+const normalizePage = (page: PageText): NormalizedText => {
+  let normalized = normalizedPages.get(page);
+  if (!normalized) {
+    normalized = normalizeWithOffsets(page.text);
+    normalizedPages.set(page, normalized);
+  }
+  return normalized;
+};
+
+const toLocation = (
+  page: PageText,
+  normalized: NormalizedText,
+  index: number,
+  length: number
+): QuoteLocation => ({
+  pageNumber: page.pageNumber,
+  start: normalized.offsets[index],
+  end: normalized.offsets[index + length - 1] + 1,
+});
+
+// 引用の前後に付けられがちな括弧や引用符を取り除く
+export const stripQuoteMarks = (quote: string): string =>
+  quote.trim().replace(/^["'「『“]+|["'」』”]+$/g, "");
+
+/**
+ * 引用文が文書のどのページのどこにあるかを探す。空白・改行や全角半角の違いは無視する
+ */
+export const locateQuote = (
+  pages: PageText[],
+  quote: string
+): QuoteLocation | null => {
+  const target = normalizeWithOffsets(stripQuoteMarks(quote)).text;
+  if (!target) return null;
+
+  for (const page of pages) {
+    const normalized = normalizePage(page);
+    const index = normalized.text.indexOf(target);
+    if (index !== -1) return toLocation(page, normalized, index, target.length);
+  }
+  return null;
+};
+
+/**
+ * 引用文と同じ長さの窓をページ上で動かし、バイグラムの一致数が最も多い位置を返す
+ */
+const findClosestWindow = (
+  page: PageText,
+  target: string
+): QuoteMatch | null => {
+  const normalized = normalizePage(page);
+  const { text } = normalized;
+  const size = target.length;
+  if (size < 2 || text.length < size) return null;
+
+  const targetGrams = countBigrams(target);
+  const windowGrams = new Map<string, number>();
+  let overlap = 0;
+  const add = (gram: string) => {
+    const count = (windowGrams.get(gram) ?? 0) + 1;
+    windowGrams.set(gram, count);
+    if (count <= (targetGrams.get(gram) ?? 0)) overlap++;
+  };
+  const remove = (gram: string) => {
+    const count = windowGrams.get(gram) ?? 0;
+    if (count <= (targetGrams.get(gram) ?? 0)) overlap--;
+    windowGrams.set(gram, count - 1);
+  };
+
+  for (let i = 0; i < size - 1; i++) add(text.slice(i, i + 2));
+  let best = overlap;
+  let bestIndex = 0;
+  for (let start = 1; start + size <= text.length; start++) {
+    remove(text.slice(start - 1, start + 1));
+    add(text.slice(start + size - 2, start + size));
+    if (overlap > best) {
+      best = overlap;
+      bestIndex = start;
+    }
+  }
+
+  return {
+    ...toLocation(page, normalized, bestIndex, size),
+    // 窓と引用文のバイグラム数は等しいため、Dice係数は一致数 / バイグラム数になる
+    score: best / (size - 1),
+  };
+};
+
+/**
+ * 引用文に最もよく一致する箇所を探す。完全に一致しない場合は言い換えや
+ * 抽出時の文字化けを考慮して、最も近い箇所とその一致度を返す
+ */
+export const matchQuote = (
+  pages: PageText[],
+  quote: string
+): QuoteMatch | null => {
+  const exact = locateQuote(pages, quote);
+  if (exact) return { ...exact, score: 1 };
+
+  const target = normalizeWithOffsets(stripQuoteMarks(quote)).text;
+  let best: QuoteMatch | null = null;
+  for (const page of pages) {
+    const match = findClosestWindow(page, target);
+    if (match && (!best || match.score > best.score)) best = match;
+  }
+  return best;
+};
@@ -0,0 +1,70 @@
+import * as pdfjs from "pdfjs-dist";
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export interface PdfTextSpan {
+  str: string;
+  // ページテキスト内での開始・終了位置
+  start: number;
+  end: number;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+  spans: PdfTextSpan[];
+}
+
+export const isPdfFile = (file: File): boolean =>
+  file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+export const loadPdfDocument = async (file: File): Promise<PDFDocumentProxy> =>
+  pdfjs.getDocument({
+    data: new Uint8Array(await file.arrayBuffer()),
+    cMapUrl: `${import.meta.env.BASE_URL}pdfjs/cmaps/`,
+    cMapPacked: true,
+    standardFontDataUrl: `${import.meta.env.BASE_URL}pdfjs/standard_fonts/`,
+  }).promise;
+
+/**
+ * ページのテキストを連結し、各テキスト片の位置情報とともに返す
+ */
+export const extractPageText = async (
+  page: PDFPageProxy
+): Promise<PdfPageText> => {
+  const content = await page.getTextContent();
+  const spans: PdfTextSpan[] = [];
+  let text = "";
+
+  content.items.forEach((item) => {
+    if (!("str" in item)) return;
+    const textItem = item as TextItem;
+    spans.push({
+      str: textItem.str,
+      start: text.length,
+      end: text.length + textItem.str.length,
+      transform: textItem.transform,
+      width: textItem.width,
+      height: textItem.height,
+    });
+    text += textItem.str + (textItem.hasEOL ? "\n" : "");
+  });
+
+  return { pageNumber: page.pageNumber, text, spans };
+};
+
+export const extractDocumentText = async (
+  doc: PDFDocumentProxy
+): Promise<PdfPageText[]> => {
+  const pages: PdfPageText[] = [];
+  for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+    pages.push(await extractPageText(await doc.getPage(pageNumber)));
+  }
+  return pages;
+};
@@ -0,0 +1,27 @@
+import type { Project } from "../types/project";
+
+export type ProjectInput = Pick<Project, "name" | "issuer" | "deadline" | "notes">;
+
+export const createProject = (input: ProjectInput): Project => {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    ...input,
+    id: `project_${Date.now()}`,
+    created_at: now,
+    updated_at: now,
+  };
+};
+
+/**
+ * 提出期限までの日数を返す。当日は0、期限切れは負の値。期限が未定の場合はnull
+ */
+export const getDaysUntilDeadline = (
+  deadline: string,
+  now: Date = new Date()
+): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(deadline);
+  if (!match) return null;
+  const due = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((due.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+};
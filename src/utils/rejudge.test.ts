@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { Assessment } from "../types/dify";
+import type { WorkflowResult } from "../types/history";
+import { addRejudgement, findRejudgedItem } from "./rejudge";
+import { applyReview, getReviewState } from "./review";
+import { buildWorkflowResultView } from "./workflowResultView";
+
+const oldAssessment: Assessment = {
+  compliance_status: "×",
+  reasoning: "スマートフォン以外の手段が見当たらない",
+};
+const newAssessment: Assessment = {
+  compliance_status: "○",
+  reasoning: "電話での欠席連絡を職員が代理入力できる",
+};
+
+const workflowResult: WorkflowResult = {
+  id: "run_1",
+  file_id: "file_1",
+  status: "completed",
+  created_at: 100,
+  result: {
+    data: {
+      id: "run_1",
+      workflow_id: "wf",
+      status: "succeeded",
+      outputs: {
+        judgement: [
+          { original_item: "欠席連絡を行えること", assessment: oldAssessment },
+        ],
+      },
+      elapsed_time: 1,
+      total_tokens: 1,
+      total_steps: 1,
+      created_at: 100,
+      finished_at: 101,
+    },
+  },
+  reviews: {
+    0: { compliance_status: "△", confirmed: true, reviewed_at: 150 },
+  },
+  threads: {
+    0: { assignee_id: "m1", assignee_name: "佐藤", state: "done", comments: [] },
+  },
+};
+
+describe("addRejudgement", () => {
+  const updated = addRejudgement(workflowResult, 0, {
+    assessment: newAssessment,
+    context: "職員の代理入力に対応",
+    judged_at: 200,
+  });
+  const item = buildWorkflowResultView(updated).result!.outputs.judgement[0];
+
+  it("置き換え後の判定を表示し、最初の判定を履歴に残す", () => {
+    expect(item.assessment).toEqual(newAssessment);
+    expect(item.revisions?.map((r) => r.assessment)).toEqual([
+      oldAssessment,
+      newAssessment,
+    ]);
+  });
+
+  it("古い判定に対するレビューで新しい判定を上書きしない", () => {
+    expect(item.review).toBeUndefined();
+    expect(applyReview(item).assessment.compliance_status).toBe("○");
+  });
+
+  it("確認済みだった対応状況を確認中に戻し、担当者とコメントは残す", () => {
+    expect(getReviewState(item)).toBe("in_progress");
+    expect(item.thread?.assignee_name).toBe("佐藤");
+  });
+
+  it("元の実行結果は変更しない", () => {
+    expect(workflowResult.reviews?.[0]).toBeDefined();
+    expect(workflowResult.rejudgements).toBeUndefined();
+  });
+});
+
+describe("findRejudgedItem", () => {
+  it("表記ゆれがあっても要件本文で対応付ける", () => {
+    const items = [
+      { original_item: "通知できること", assessment: newAssessment },
+      { original_item: "欠席連絡を 行えること", assessment: newAssessment },
+    ];
+    expect(findRejudgedItem(items, "欠席連絡を行えること")).toBe(items[1]);
+  });
+});
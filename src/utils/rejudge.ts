@@ -0,0 +1,67 @@
+import type { AssessmentRevision, JudgementItem } from "../types/dify";
+import type { WorkflowResult } from "../types/history";
+import { normalizeText } from "./text";
+
+/**
+ * 再判定の結果から対象の要件の判定を探す。要件本文が一致しない場合は結果が1件だけならそれを使う
+ */
+export const findRejudgedItem = (
+  items: JudgementItem[],
+  requirement: string
+): JudgementItem | undefined => {
+  const key = normalizeText(requirement);
+  return (
+    items.find((item) => normalizeText(item.original_item) === key) ??
+    (items.length === 1 ? items[0] : undefined)
+  );
+};
+
+/**
+ * 再判定の結果で判定項目の判定を置き換え、最初の判定を含む履歴を紐づける
+ */
+export const attachRejudgements = (
+  items: JudgementItem[],
+  rejudgements: Record<number, AssessmentRevision[]> | undefined,
+  judgedAt: number
+): JudgementItem[] =>
+  rejudgements
+    ? items.map((item, index) => {
+        const revisions = rejudgements[index];
+        if (!revisions?.length) return item;
+        return {
+          ...item,
+          assessment: revisions[revisions.length - 1].assessment,
+          revisions: [
+            { assessment: item.assessment, judged_at: judgedAt },
+            ...revisions,
+          ],
+        };
+      })
+    : items;
+
+/**
+ * 実行結果に再判定の結果を追加する
+ * 担当者レビューと対応状況は置き換え前の判定に対するものなので、レビューは破棄し対応状況は確認中に戻す
+ */
+export const addRejudgement = (
+  workflowResult: WorkflowResult,
+  index: number,
+  revision: AssessmentRevision
+): WorkflowResult => {
+  const reviews = { ...workflowResult.reviews };
+  delete reviews[index];
+  const thread = workflowResult.threads?.[index];
+
+  return {
+    ...workflowResult,
+    rejudgements: {
+      ...workflowResult.rejudgements,
+      [index]: [...(workflowResult.rejudgements?.[index] ?? []), revision],
+    },
+    reviews,
+    threads: {
+      ...workflowResult.threads,
+      [index]: { ...thread, comments: thread?.comments ?? [], state: "in_progress" },
+    },
+  };
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { decodeCsvText, parseRequirementWorkbook } from "./requirementSheet";
+
+// 「要件,通知」をShift_JISで表したバイト列
+const SHIFT_JIS_BYTES = [0x97, 0x76, 0x8c, 0x8f, 0x2c, 0x92, 0xca, 0x92, 0x6d];
+
+describe("decodeCsvText", () => {
+  it("BOM付きUTF-8はBOMを取り除いて読む", () => {
+    const bytes = new TextEncoder().encode("\uFEFF要件,通知");
+    expect(decodeCsvText(bytes.buffer)).toBe("要件,通知");
+  });
+
+  it("UTF-8として不正な場合はShift_JISとして読む", () => {
+    expect(decodeCsvText(new Uint8Array(SHIFT_JIS_BYTES).buffer)).toBe("要件,通知");
+  });
+});
+
+describe("parseRequirementWorkbook", () => {
+  it("Shift_JISのCSVを文字化けせずに読み込む", async () => {
+    const file = new File([new Uint8Array(SHIFT_JIS_BYTES)], "requirements.csv");
+    const workbook = await parseRequirementWorkbook(file);
+    expect(workbook.sheets[workbook.sheetNames[0]]).toEqual([["要件", "通知"]]);
+  });
+});
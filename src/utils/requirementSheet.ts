@@ -0,0 +1,107 @@
+import * as XLSX from "xlsx";
+import type { JudgementItem } from "../types/dify";
+import type { RequirementRow } from "../types/history";
+import { normalizeText } from "./text";
+
+export const REQUIREMENT_SHEET_FORMATS = ["xlsx", "xls", "csv"];
+
+export type SheetCell = string | number | boolean | null;
+
+export interface ParsedWorkbook {
+  sheetNames: string[];
+  sheets: Record<string, SheetCell[][]>;
+}
+
+/**
+ * CSVのバイト列を文字列に変換する。UTF-8として不正な場合は、国内の発注元に多いShift_JISとして読む
+ */
+export const decodeCsvText = (buffer: ArrayBuffer): string => {
+  try {
+    // BOMは既定で取り除かれる
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("shift_jis").decode(buffer);
+  }
+};
+
+/**
+ * XLSX/CSVファイルを読み込み、シートごとのセル配列に変換する
+ */
+export const parseRequirementWorkbook = async (
+  file: File
+): Promise<ParsedWorkbook> => {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  const workbook =
+    extension === "csv"
+      ? XLSX.read(decodeCsvText(await file.arrayBuffer()), { type: "string" })
+      : XLSX.read(await file.arrayBuffer(), { type: "array" });
+
+  const sheets: Record<string, SheetCell[][]> = {};
+  workbook.SheetNames.forEach((name) => {
+    const sheet = workbook.Sheets[name];
+    if (!sheet["!ref"]) {
+      sheets[name] = [];
+      return;
+    }
+    // 行番号・列記号をシート上の表記と一致させるため、常にA1から読み込む
+    const range = XLSX.utils.decode_range(sheet["!ref"]);
+    range.s = { r: 0, c: 0 };
+    sheets[name] = XLSX.utils.sheet_to_json<SheetCell[]>(sheet, {
+      header: 1,
+      blankrows: true,
+      defval: null,
+      range,
+    });
+  });
+
+  return { sheetNames: workbook.SheetNames, sheets };
+};
+
+/**
+ * 列番号をExcel表記(A, B, ..., AA)に変換する
+ */
+export const toColumnLetter = (index: number): string =>
+  XLSX.utils.encode_col(index);
+
+export const getColumnCount = (rows: SheetCell[][]): number =>
+  rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+/**
+ * 指定した列から要件本文を取り出す。行番号はシート上の1始まりの行番号を保持する
+ */
+export const extractRequirements = (
+  rows: SheetCell[][],
+  columnIndex: number,
+  hasHeaderRow: boolean
+): RequirementRow[] =>
+  rows
+    .map((row, index) => ({
+      row_number: index + 1,
+      requirement: String(row[columnIndex] ?? "").trim(),
+    }))
+    .slice(hasHeaderRow ? 1 : 0)
+    .filter((row) => row.requirement !== "");
+
+/**
+ * ワークフローが行番号を返さなかった判定項目に、要件本文の一致で元の行番号を付与する
+ */
+export const attachRowNumbers = (
+  items: JudgementItem[],
+  requirements: RequirementRow[]
+): JudgementItem[] => {
+  const byText = new Map<string, number>();
+  requirements.forEach((row) => {
+    const key = normalizeText(row.requirement);
+    if (!byText.has(key)) byText.set(key, row.row_number);
+  });
+  // 件数が一致する場合は順序での対応付けをフォールバックとして使う
+  const sameLength = items.length === requirements.length;
+
+  return items.map((item, index) => {
+    if (item.row_number !== undefined) return item;
+    const rowNumber =
+      byText.get(normalizeText(item.original_item)) ??
+      (sameLength ? requirements[index].row_number : undefined);
+    return rowNumber === undefined ? item : { ...item, row_number: rowNumber };
+  });
+};
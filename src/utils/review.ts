@@ -0,0 +1,105 @@
+import type {
+  JudgementItem,
+  JudgementReview,
+  ReviewState,
+  ReviewThread,
+} from "../types/dify";
+
+export const REVIEW_STATES: ReviewState[] = [
+  "todo",
+  "in_progress",
+  "done",
+  "escalated",
+];
+
+export const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+  todo: "未着手",
+  in_progress: "確認中",
+  done: "確認済み",
+  escalated: "要エスカレーション",
+};
+
+export const REVIEW_STATE_COLORS: Record<
+  ReviewState,
+  "default" | "info" | "success" | "error"
+> = {
+  todo: "default",
+  in_progress: "info",
+  done: "success",
+  escalated: "error",
+};
+
+/**
+ * 保存済みのレビューを判定項目に紐づける
+ */
+export const attachReviews = (
+  items: JudgementItem[],
+  reviews: Record<number, JudgementReview> | undefined
+): JudgementItem[] =>
+  reviews
+    ? items.map((item, index) =>
+        reviews[index] ? { ...item, review: reviews[index] } : item
+      )
+    : items;
+
+/**
+ * 保存済みの担当者・対応状況・コメントを判定項目に紐づける
+ */
+export const attachThreads = (
+  items: JudgementItem[],
+  threads: Record<number, ReviewThread> | undefined
+): JudgementItem[] =>
+  threads
+    ? items.map((item, index) =>
+        threads[index] ? { ...item, thread: threads[index] } : item
+      )
+    : items;
+
+/**
+ * 対応状況を返す。明示的に設定されていない場合は、レビューで確認済みなら確認済み、それ以外は未着手とみなす
+ */
+export const getReviewState = (item: JudgementItem): ReviewState =>
+  item.thread?.state ?? (item.review?.confirmed ? "done" : "todo");
+
+export const countByReviewState = (
+  items: JudgementItem[]
+): Record<ReviewState, number> => {
+  const counts: Record<ReviewState, number> = {
+    todo: 0,
+    in_progress: 0,
+    done: 0,
+    escalated: 0,
+  };
+  items.forEach((item) => {
+    counts[getReviewState(item)] += 1;
+  });
+  return counts;
+};
+
+/**
+ * レビューで上書きされた値を反映した判定項目を返す。集計やエクスポートにはこちらを使う
+ */
+export const applyReview = (item: JudgementItem): JudgementItem => {
+  if (!item.review) return item;
+  const { compliance_status, reasoning, alternative_solution } = item.review;
+  return {
+    ...item,
+    assessment: {
+      ...item.assessment,
+      compliance_status: compliance_status ?? item.assessment.compliance_status,
+      reasoning: reasoning ?? item.assessment.reasoning,
+      alternative_solution:
+        alternative_solution ?? item.assessment.alternative_solution,
+    },
+  };
+};
+
+export const isOverridden = (item: JudgementItem): boolean =>
+  !!item.review &&
+  ((item.review.compliance_status !== undefined &&
+    item.review.compliance_status !== item.assessment.compliance_status) ||
+    (item.review.reasoning !== undefined &&
+      item.review.reasoning !== item.assessment.reasoning) ||
+    (item.review.alternative_solution !== undefined &&
+      item.review.alternative_solution !==
+        (item.assessment.alternative_solution ?? "")));
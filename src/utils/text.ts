@@ -0,0 +1,58 @@
+/**
+ * 比較用に文字列を正規化する。全角英数字・記号を半角に寄せ、空白と改行を取り除く
+ */
+export const normalizeText = (text: string): string =>
+  text.normalize("NFKC").replace(/\s+/g, "").toLowerCase();
+
+/**
+ * 文字バイグラムごとの出現回数を数える
+ */
+export const countBigrams = (text: string): Map<string, number> => {
+  const result = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    result.set(gram, (result.get(gram) ?? 0) + 1);
+  }
+  return result;
+};
+
+/**
+ * 文字バイグラムのDice係数で2つの文字列の類似度(0〜1)を求める
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftGrams = countBigrams(left);
+  const rightGrams = countBigrams(right);
+  let overlap = 0;
+  leftGrams.forEach((count, gram) => {
+    overlap += Math.min(count, rightGrams.get(gram) ?? 0);
+  });
+  return (2 * overlap) / (left.length - 1 + (right.length - 1));
+};
+
+export interface NormalizedText {
+  text: string;
+  // 正規化後の各文字が元の文字列の何文字目に対応するか
+  offsets: number[];
+}
+
+/**
+ * normalizeText と同じ正規化を行い、元の文字列での位置との対応表も返す
+ */
+export const normalizeWithOffsets = (text: string): NormalizedText => {
+  let normalized = "";
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.codePointAt(i) ?? 0;
+    const char = String.fromCodePoint(code);
+    const converted = char.normalize("NFKC").replace(/\s+/g, "").toLowerCase();
+    normalized += converted;
+    for (let j = 0; j < converted.length; j++) offsets.push(i);
+    if (code > 0xffff) i++;
+  }
+  return { text: normalized, offsets };
+};
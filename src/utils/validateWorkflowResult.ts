@@ -0,0 +1,218 @@
+import type {
+  Assessment,
+  DifyWorkflowResult,
+  JudgementItem,
+} from "../types/dify";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  // 判定項目に関する問題の場合、その項目のインデックス
+  itemIndex?: number;
+}
+
+export interface WorkflowResultValidation {
+  result: DifyWorkflowResult | null;
+  issues: ValidationIssue[];
+  // 判定項目のうちスキップされた件数
+  invalidItemCount: number;
+}
+
+const WORKFLOW_STATUSES: DifyWorkflowResult["status"][] = [
+  "succeeded",
+  "failed",
+  "running",
+  "stopped",
+];
+
+// LLMが出力しがちな表記ゆれを正規の記号に寄せる
+const COMPLIANCE_STATUS_ALIASES: Record<string, Assessment["compliance_status"]> = {
+  "○": "○",
+  "◯": "○",
+  "〇": "○",
+  o: "○",
+  O: "○",
+  "△": "△",
+  "▲": "△",
+  "×": "×",
+  "✕": "×",
+  "✖": "×",
+  x: "×",
+  X: "×",
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const parseMaybeJson = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const optionalString = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "string") return value.trim() || undefined;
+  return String(value);
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+/**
+ * 判定項目1件を検証・正規化する。正規化できない場合はnullを返し、issuesに理由を追加する
+ */
+export const validateJudgementItem = (
+  value: unknown,
+  index: number,
+  issues: ValidationIssue[]
+): JudgementItem | null => {
+  const base = `outputs.judgement[${index}]`;
+  const report = (path: string, message: string) =>
+    issues.push({ path: `${base}${path}`, message, itemIndex: index });
+
+  const raw = parseMaybeJson(value);
+  if (!isRecord(raw)) {
+    report("", "判定項目がオブジェクトではありません");
+    return null;
+  }
+
+  const originalItem = optionalString(raw.original_item);
+  if (!originalItem) {
+    report(".original_item", "要件本文がありません");
+    return null;
+  }
+
+  const assessment = parseMaybeJson(raw.assessment);
+  if (!isRecord(assessment)) {
+    report(".assessment", "assessmentがありません");
+    return null;
+  }
+
+  const rawStatus =
+    typeof assessment.compliance_status === "string"
+      ? assessment.compliance_status.trim()
+      : "";
+  const status = COMPLIANCE_STATUS_ALIASES[rawStatus];
+  if (!status) {
+    report(
+      ".assessment.compliance_status",
+      `適合状況が不正です: ${JSON.stringify(assessment.compliance_status ?? null)}`
+    );
+    return null;
+  }
+
+  const reasoning = optionalString(assessment.reasoning);
+  if (!reasoning) {
+    report(".assessment.reasoning", "判定理由が空のため空文字で補完しました");
+  }
+
+  const rowNumber = toNumber(raw.row_number);
+
+  return {
+    original_item: originalItem,
+    ...(rowNumber !== null && { row_number: rowNumber }),
+    assessment: {
+      compliance_status: status,
+      reasoning: reasoning ?? "",
+      alternative_solution: optionalString(assessment.alternative_solution),
+      reference_source: optionalString(assessment.reference_source),
+      type: optionalString(assessment.type),
+    },
+  };
+};
+
+/**
+ * ワークフローのレスポンス(data部分)を検証し、描画可能な形に正規化する
+ * 不正な判定項目はスキップし、有効な項目だけを含む結果を返す
+ */
+export const validateWorkflowResult = (
+  value: unknown
+): WorkflowResultValidation => {
+  const issues: ValidationIssue[] = [];
+
+  if (!isRecord(value)) {
+    issues.push({ path: "", message: "ワークフロー結果がオブジェクトではありません" });
+    return { result: null, issues, invalidItemCount: 0 };
+  }
+
+  const outputs = parseMaybeJson(value.outputs);
+  if (!isRecord(outputs)) {
+    issues.push({ path: "outputs", message: "outputsがありません" });
+    return { result: null, issues, invalidItemCount: 0 };
+  }
+
+  const rawJudgement = parseMaybeJson(outputs.judgement);
+  let judgementSource: unknown[] = [];
+  if (Array.isArray(rawJudgement)) {
+    judgementSource = rawJudgement;
+  } else {
+    issues.push({
+      path: "outputs.judgement",
+      message: "judgementが配列ではありません",
+    });
+  }
+
+  const judgement: JudgementItem[] = [];
+  judgementSource.forEach((item, index) => {
+    const validated = validateJudgementItem(item, index, issues);
+    if (validated) judgement.push(validated);
+  });
+
+  const numberField = (key: string): number => {
+    const parsed = toNumber(value[key]);
+    if (parsed === null) {
+      if (value[key] !== undefined) {
+        issues.push({ path: key, message: `${key}が数値ではないため0としました` });
+      }
+      return 0;
+    }
+    return parsed;
+  };
+
+  const status = WORKFLOW_STATUSES.find((s) => s === value.status);
+  if (!status) {
+    issues.push({
+      path: "status",
+      message: `ステータスが不正です: ${JSON.stringify(value.status ?? null)}`,
+    });
+  }
+
+  const createdAt = numberField("created_at");
+
+  return {
+    result: {
+      id: optionalString(value.id) ?? "",
+      workflow_id: optionalString(value.workflow_id) ?? "",
+      status: status ?? "failed",
+      outputs: { judgement },
+      error: optionalString(value.error),
+      elapsed_time: numberField("elapsed_time"),
+      total_tokens: numberField("total_tokens"),
+      total_steps: numberField("total_steps"),
+      created_at: createdAt,
+      finished_at: toNumber(value.finished_at) ?? createdAt,
+    },
+    issues,
+    invalidItemCount: judgementSource.length - judgement.length,
+  };
+};
+
+/**
+ * ワークフローAPIのレスポンス全体から data 部分を取り出して検証する
+ */
+export const validateWorkflowResponse = (
+  response: unknown
+): WorkflowResultValidation =>
+  validateWorkflowResult(
+    isRecord(response) && "data" in response ? response.data : response
+  );
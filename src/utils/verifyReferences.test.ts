@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import type { JudgementItem } from "../types/dify";
+import type { PageText } from "./locateQuote";
+import { verifyReferences } from "./verifyReferences";
+
+const item = (reference_source?: string): JudgementItem => ({
+  original_item: "保護者がスマートフォンから欠席連絡できること",
+  assessment: { compliance_status: "○", reasoning: "", reference_source },
+});
+
+describe("verifyReferences", () => {
+  const pages: PageText[] = [
+    {
+      pageNumber: 1,
+      text: "本システムは保護者のスマートフォンから欠席連絡を受け付ける。",
+    },
+  ];
+
+  it("原文にある引用を照合し、参照元のない項目は null にする", () => {
+    const [found, missing, none] = verifyReferences(
+      [
+        item("保護者のスマートフォンから欠席連絡を受け付ける"),
+        item("データセンターは国内に設置する"),
+        item(),
+      ],
+      pages
+    );
+    expect(found?.status).toBe("verified");
+    expect(missing?.status).toBe("not_found");
+    expect(none).toBeNull();
+  });
+
+  it("同じページ配列と引用の照合結果を再利用する", () => {
+    const quote = "保護者のスマートフォンから欠席連絡を受け付ける";
+    const [first] = verifyReferences([item(quote)], pages);
+    const [second] = verifyReferences([item(quote)], pages);
+    expect(second).toBe(first);
+    const [other] = verifyReferences([item(quote)], [...pages]);
+    expect(other).not.toBe(first);
+    expect(other).toEqual(first);
+  });
+});
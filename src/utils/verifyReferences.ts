@@ -0,0 +1,85 @@
+import type { JudgementItem } from "../types/dify";
+import { matchQuote, type PageText, type QuoteMatch } from "./locateQuote";
+import { applyReview } from "./review";
+
+export type ReferenceStatus = "verified" | "partial" | "not_found";
+
+export interface ReferenceVerification {
+  status: ReferenceStatus;
+  // 原文中で最も近い箇所との一致度(0〜1)
+  score: number;
+  match: QuoteMatch | null;
+}
+
+// この一致度以上なら抽出時の表記ゆれ程度の差とみなし、原文どおりの引用とする
+export const VERIFIED_THRESHOLD = 0.9;
+// この一致度以上なら要約・言い換えを含む部分的な引用とする
+export const PARTIAL_THRESHOLD = 0.5;
+
+export const REFERENCE_STATUS_LABELS: Record<ReferenceStatus, string> = {
+  verified: "原文と一致",
+  partial: "部分一致",
+  not_found: "原文に見つかりません",
+};
+
+export const verifyReference = (
+  pages: PageText[],
+  quote: string
+): ReferenceVerification => {
+  const match = matchQuote(pages, quote);
+  const score = match?.score ?? 0;
+  const status: ReferenceStatus =
+    score >= VERIFIED_THRESHOLD
+      ? "verified"
+      : score >= PARTIAL_THRESHOLD
+        ? "partial"
+        : "not_found";
+  return { status, score, match: status === "not_found" ? null : match };
+};
+
+// 照合はページ数・引用数に比例して重いため、原文のページ配列ごとに引用単位で結果を再利用する
+const verificationCache = new WeakMap<
+  PageText[],
+  Map<string, ReferenceVerification>
+>();
+
+const verifyReferenceCached = (
+  pages: PageText[],
+  quote: string
+): ReferenceVerification => {
+  let cache = verificationCache.get(pages);
+  if (!cache) {
+    cache = new Map();
+    verificationCache.set(pages, cache);
+  }
+  let verification = cache.get(quote);
+  if (!verification) {
+    verification = verifyReference(pages, quote);
+    cache.set(quote, verification);
+  }
+  return verification;
+};
+
+/**
+ * 各判定項目の参照元を原文と照合する。参照元のない項目は null になる
+ */
+export const verifyReferences = (
+  items: JudgementItem[],
+  pages: PageText[]
+): (ReferenceVerification | null)[] =>
+  items.map((item) =>
+    item.assessment.reference_source
+      ? verifyReferenceCached(pages, item.assessment.reference_source)
+      : null
+  );
+
+/**
+ * 根拠となる引用を原文で確認できない「○」判定は、担当者の確認が済むまで要確認とする
+ */
+export const requiresReview = (
+  item: JudgementItem,
+  verification: ReferenceVerification | null
+): boolean =>
+  applyReview(item).assessment.compliance_status === "○" &&
+  verification?.status !== "verified" &&
+  !item.review?.confirmed;
@@ -0,0 +1,44 @@
+import type { UploadResult, WorkflowResult } from "../types/history";
+import { attachCategories, type CategoryRule } from "./categoryClassifier";
+import { attachPriorities } from "./fitScore";
+import { attachRejudgements } from "./rejudge";
+import { attachRowNumbers } from "./requirementSheet";
+import { attachReviews, attachThreads } from "./review";
+import {
+  validateWorkflowResponse,
+  type WorkflowResultValidation,
+} from "./validateWorkflowResult";
+
+/**
+ * 保存済みの実行結果を検証し、行番号・再判定・担当者レビュー・コメント・重要度を紐づけた表示用の結果を組み立てる
+ * 分類ルールを渡した場合は、カテゴリのない項目をルールで分類する
+ */
+export const buildWorkflowResultView = (
+  workflowResult: WorkflowResult,
+  upload?: UploadResult,
+  categoryRules?: CategoryRule[]
+): WorkflowResultValidation => {
+  const validation = validateWorkflowResponse(workflowResult.result);
+  if (!validation.result) return validation;
+
+  let judgement = validation.result.outputs.judgement;
+  if (upload?.requirements) {
+    judgement = attachRowNumbers(judgement, upload.requirements);
+  }
+  judgement = attachRejudgements(
+    judgement,
+    workflowResult.rejudgements,
+    workflowResult.created_at
+  );
+  judgement = attachReviews(judgement, workflowResult.reviews);
+  judgement = attachThreads(judgement, workflowResult.threads);
+  judgement = attachPriorities(judgement, workflowResult.priorities);
+  if (categoryRules) {
+    judgement = attachCategories(judgement, categoryRules);
+  }
+
+  return {
+    ...validation,
+    result: { ...validation.result, outputs: { judgement } },
+  };
+};
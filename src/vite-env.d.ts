@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DIFY_USER_ID?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,7 +1,51 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react-swc'
+import { createReadStream, existsSync, readdirSync, readFileSync, statSync } from 'node:fs'
+import { join, normalize } from 'node:path'
+
+// pdf.js が日本語PDFのテキスト抽出に使う CMap と標準フォントを /pdfjs/ 以下で配信する
+const PDFJS_ASSET_DIRS = ['cmaps', 'standard_fonts']
+
+const pdfjsAssets = (): Plugin => {
+  const root = join(import.meta.dirname, 'node_modules', 'pdfjs-dist')
+
+  return {
+    name: 'pdfjs-assets',
+    configureServer(server) {
+      server.middlewares.use('/pdfjs', (req, res, next) => {
+        const path = normalize(decodeURIComponent(req.url?.split('?')[0] ?? ''))
+        const [dir] = path.split(/[\\/]/).filter(Boolean)
+        const file = join(root, path)
+        if (!PDFJS_ASSET_DIRS.includes(dir) || !file.startsWith(root) || !existsSync(file) || !statSync(file).isFile()) {
+          next()
+          return
+        }
+        res.setHeader('Content-Type', 'application/octet-stream')
+        createReadStream(file).pipe(res)
+      })
+    },
+    generateBundle() {
+      for (const dir of PDFJS_ASSET_DIRS) {
+        for (const name of readdirSync(join(root, dir))) {
+          this.emitFile({
+            type: 'asset',
+            fileName: `pdfjs/${dir}/${name}`,
+            source: readFileSync(join(root, dir, name)),
+          })
+        }
+      }
+    },
+  }
+}
+
+// Dify API はブラウザから直接呼ばず、APIキーを持つローカルのプロキシ (npm run server) 経由で呼ぶ
+const apiProxy = {
+  '/api': process.env.DIFY_PROXY_TARGET ?? 'http://localhost:8787',
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), pdfjsAssets()],
+  server: { proxy: apiProxy },
+  preview: { proxy: apiProxy },
 })